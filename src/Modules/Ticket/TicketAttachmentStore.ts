@@ -0,0 +1,110 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { config, type ITicket } from "../../config";
+import type { TranscriptMessage } from "./TicketTranscript";
+
+// A stalled CDN download must not keep the archive running forever
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+// Stored attachments keyed by archivedAttachmentKey, mapped to their path below the storage directory
+export type ArchivedAttachments = Map<string, string>;
+
+export function archivedAttachmentKey(
+  messageId: string,
+  index: number
+): string {
+  return `${messageId}-${index}`;
+}
+
+// Copies ticket attachments off the Discord CDN, whose links expire after a while
+export class TicketAttachmentStore {
+  private logger: Logger = LoggerFactory.create("TicketAttachmentStore");
+
+  // Files are stored as <ticket id>/<message id>-<index>-<name> below the storage directory
+  public async archive(
+    ticket: ITicket,
+    messages: TranscriptMessage[]
+  ): Promise<ArchivedAttachments> {
+    const archived: ArchivedAttachments = new Map();
+    const settings = config.ticket.settings.attachmentArchive;
+    if (!settings.enabled) return archived;
+
+    const maxFileBytes = settings.maxFileSizeMb * 1024 * 1024;
+    const maxTicketBytes = settings.maxTicketSizeMb * 1024 * 1024;
+    let storedBytes = 0;
+
+    for (const message of messages) {
+      for (const [index, attachment] of message.attachments.entries()) {
+        if (!this.isAllowedType(attachment.contentType)) continue;
+
+        if (
+          attachment.size > maxFileBytes ||
+          storedBytes + attachment.size > maxTicketBytes
+        ) {
+          this.logger.info(
+            `Skipped attachment ${attachment.name} of ticket ${ticket.Id}, it exceeds the size cap`
+          );
+          continue;
+        }
+
+        const relativePath = path.join(
+          ticket.Id,
+          `${message.id}-${index}-${attachment.name.replace(/[^\w.-]/g, "_")}`
+        );
+
+        try {
+          const response = await fetch(attachment.url, {
+            signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+          });
+          if (!response.ok) {
+            throw new Error(`Download failed with status ${response.status}`);
+          }
+
+          const data = Buffer.from(await response.arrayBuffer());
+          const target = path.join(settings.directory, relativePath);
+          await mkdir(path.dirname(target), { recursive: true });
+          await writeFile(target, data);
+
+          archived.set(archivedAttachmentKey(message.id, index), relativePath);
+          storedBytes += data.length;
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          this.logger.error(
+            `Error archiving attachment ${attachment.name} of ticket ${ticket.Id}:`,
+            err
+          );
+        }
+      }
+    }
+
+    if (archived.size > 0) {
+      this.logger.info(
+        `Archived ${archived.size} attachments of ticket ${ticket.Id}`
+      );
+    }
+
+    return archived;
+  }
+
+  public async remove(ticket: ITicket): Promise<void> {
+    await rm(
+      path.join(config.ticket.settings.attachmentArchive.directory, ticket.Id),
+      { recursive: true, force: true }
+    );
+  }
+
+  // Entries ending in /* match every subtype, attachments without a type are skipped
+  private isAllowedType(contentType: string | null): boolean {
+    if (!contentType) return false;
+
+    const type = contentType.split(";")[0].trim().toLowerCase();
+    return config.ticket.settings.attachmentArchive.allowedContentTypes.some(
+      (allowed) =>
+        allowed.endsWith("/*")
+          ? type.startsWith(allowed.slice(0, -1))
+          : type === allowed
+    );
+  }
+}
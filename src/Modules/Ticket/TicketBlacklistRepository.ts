@@ -0,0 +1,92 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PrismaClient,
+  TicketBlacklist as TicketBlacklistRecord,
+} from "../../../prisma/generated/prisma";
+import type { ITicketBlacklistEntry } from "../../config";
+
+export type TicketBlacklistInput = Omit<
+  ITicketBlacklistEntry,
+  "Id" | "CreatedAt"
+>;
+
+export class TicketBlacklistRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Expired entries are ignored here, the scheduler deletes them shortly after
+  public async findActive(
+    userId: string
+  ): Promise<ITicketBlacklistEntry | null> {
+    const record = await this.prisma.ticketBlacklist.findUnique({
+      where: { userId },
+    });
+
+    if (!record || (record.expiresAt && record.expiresAt <= new Date())) {
+      return null;
+    }
+
+    return this.toEntry(record);
+  }
+
+  public async findAll(): Promise<ITicketBlacklistEntry[]> {
+    const records = await this.prisma.ticketBlacklist.findMany({
+      where: {
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    return records.map((record) => this.toEntry(record));
+  }
+
+  // Blacklisting an already blocked user replaces the previous entry
+  public async add(input: TicketBlacklistInput): Promise<ITicketBlacklistEntry> {
+    const data = {
+      reason: input.Reason,
+      moderatorId: input.ModeratorId,
+      expiresAt: input.ExpiresAt,
+      updatedAt: new Date(),
+    };
+
+    const record = await this.prisma.ticketBlacklist.upsert({
+      where: { userId: input.UserId },
+      create: { id: randomUUID(), userId: input.UserId, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+    return this.toEntry(record);
+  }
+
+  public async remove(userId: string): Promise<boolean> {
+    const { count } = await this.prisma.ticketBlacklist.deleteMany({
+      where: { userId },
+    });
+    return count > 0;
+  }
+
+  public async removeExpired(): Promise<ITicketBlacklistEntry[]> {
+    const where = { expiresAt: { lte: new Date() } };
+    const records = await this.prisma.ticketBlacklist.findMany({ where });
+
+    if (records.length > 0) {
+      await this.prisma.ticketBlacklist.deleteMany({
+        where: { id: { in: records.map((record) => record.id) } },
+      });
+    }
+
+    return records.map((record) => this.toEntry(record));
+  }
+
+  private toEntry(record: TicketBlacklistRecord): ITicketBlacklistEntry {
+    return {
+      Id: record.id,
+      UserId: record.userId,
+      Reason: record.reason,
+      ModeratorId: record.moderatorId,
+      ExpiresAt: record.expiresAt,
+      CreatedAt: record.createdAt,
+    };
+  }
+}
@@ -1,20 +1,33 @@
-import type { ITicket, TicketType } from "../../config";
+import type { ITicket, TicketStatus, TicketType } from "../../config";
 
 export class TicketCache {
-  private tickets: Record<TicketType, ITicket[]> = {
-    general: [],
-    bug: [],
-    feature: [],
-    application: [],
-    other: [],
-  };
+  // One bucket per ticket category, registered by the TicketCategoryRepository
+  private tickets: Map<TicketType, ITicket[]> = new Map();
 
   // Cache für schnellere Lookups
   private channelToTicketMap: Map<string, ITicket> = new Map();
   private userToTicketsMap: Map<string, Set<string>> = new Map(); // userId -> Set of channelIds
 
+  // Called after every change of a cached ticket, e.g. by the queue dashboard
+  private changeListeners: (() => void)[] = [];
+
+  public onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
+  public addType(type: TicketType): void {
+    if (!this.tickets.has(type)) {
+      this.tickets.set(type, []);
+    }
+  }
+
   public addTicket(ticket: ITicket): void {
-    this.tickets[ticket.Type].push(ticket);
+    this.addType(ticket.Type);
+    this.tickets.get(ticket.Type)!.push(ticket);
     this.channelToTicketMap.set(ticket.ChannelId, ticket);
 
     // Update user mapping
@@ -24,6 +37,8 @@ export class TicketCache {
       }
       this.userToTicketsMap.get(userId)!.add(ticket.ChannelId);
     });
+
+    this.notifyChange();
   }
 
   public removeTicket(channelId: string): boolean {
@@ -31,7 +46,7 @@ export class TicketCache {
     if (!ticket) return false;
 
     // Remove from type array
-    const typeArray = this.tickets[ticket.Type];
+    const typeArray = this.tickets.get(ticket.Type) ?? [];
     const index = typeArray.findIndex((t) => t.ChannelId === channelId);
     if (index > -1) {
       typeArray.splice(index, 1);
@@ -49,11 +64,12 @@ export class TicketCache {
       }
     });
 
+    this.notifyChange();
     return true;
   }
 
   public getTickets(type: TicketType): ITicket[] {
-    return [...this.tickets[type]]; // Return copy to prevent external modification
+    return [...(this.tickets.get(type) ?? [])]; // Return copy to prevent external modification
   }
 
   public addUserToTicket(userId: string, channelId: string): boolean {
@@ -100,23 +116,88 @@ export class TicketCache {
     const ticket = this.channelToTicketMap.get(channelId);
     if (!ticket || ticket.Closed) return false;
 
+    ticket.Status = "CLOSED";
     ticket.Closed = true;
     ticket.ClosedAt = new Date();
     if (closeReason) ticket.CloseReason = closeReason;
     if (closedBy) ticket.ClosedBy = closedBy;
 
+    this.notifyChange();
     return true;
   }
 
-  public reopenTicket(channelId: string): boolean {
+  public reopenTicket(
+    channelId: string,
+    status: TicketStatus = "OPEN"
+  ): boolean {
     const ticket = this.channelToTicketMap.get(channelId);
     if (!ticket || !ticket.Closed) return false;
 
+    ticket.Status = status;
     ticket.Closed = false;
     ticket.ClosedAt = null;
     ticket.CloseReason = undefined;
     ticket.ClosedBy = undefined;
+    ticket.ArchiveAt = undefined;
+    ticket.StatusBeforeClose = undefined;
+
+    this.notifyChange();
+    return true;
+  }
+
+  // Only for moves between OPEN and PENDING, closing goes through closeTicket
+  public setStatus(channelId: string, status: TicketStatus): boolean {
+    const ticket = this.channelToTicketMap.get(channelId);
+    if (!ticket || ticket.Closed) return false;
+
+    ticket.Status = status;
+    this.notifyChange();
+    return true;
+  }
+
+  public getPendingTickets(type?: TicketType): ITicket[] {
+    const tickets = type ? this.getTickets(type) : this.getAllTickets();
+    return tickets.filter((ticket) => ticket.Status === "PENDING");
+  }
+
+  // Moves the ticket into the bucket of its new category
+  public changeType(channelId: string, type: TicketType): boolean {
+    const ticket = this.channelToTicketMap.get(channelId);
+    if (!ticket) return false;
+
+    const typeArray = this.tickets.get(ticket.Type) ?? [];
+    const index = typeArray.findIndex((t) => t.ChannelId === channelId);
+    if (index > -1) {
+      typeArray.splice(index, 1);
+    }
 
+    ticket.Type = type;
+    this.addType(type);
+    this.tickets.get(type)!.push(ticket);
+    this.notifyChange();
+    return true;
+  }
+
+  public setHandler(channelId: string, handlerId?: string): boolean {
+    const ticket = this.channelToTicketMap.get(channelId);
+    if (!ticket) return false;
+
+    ticket.HandledBy = handlerId;
+    this.notifyChange();
+    return true;
+  }
+
+  public setFirstResponse(
+    channelId: string,
+    respondedAt: Date,
+    respondedBy: string
+  ): boolean {
+    const ticket = this.channelToTicketMap.get(channelId);
+    if (!ticket) return false;
+
+    ticket.FirstResponseAt = respondedAt;
+    ticket.FirstResponseBy = respondedBy;
+    this.notifyChange();
     return true;
   }
 
@@ -150,9 +231,15 @@ export class TicketCache {
       .filter((ticket): ticket is ITicket => ticket !== undefined);
   }
 
+  public getTicketsByHandler(handlerId: string): ITicket[] {
+    return this.getAllTickets().filter(
+      (ticket) => ticket.HandledBy === handlerId
+    );
+  }
+
   public getOpenTickets(type?: TicketType): ITicket[] {
     if (type) {
-      return this.tickets[type].filter((ticket) => !ticket.Closed);
+      return this.getTickets(type).filter((ticket) => !ticket.Closed);
     }
 
     return this.getAllTickets().filter((ticket) => !ticket.Closed);
@@ -160,14 +247,14 @@ export class TicketCache {
 
   public getClosedTickets(type?: TicketType): ITicket[] {
     if (type) {
-      return this.tickets[type].filter((ticket) => ticket.Closed);
+      return this.getTickets(type).filter((ticket) => ticket.Closed);
     }
 
     return this.getAllTickets().filter((ticket) => ticket.Closed);
   }
 
   public getAllTickets(): ITicket[] {
-    return Object.values(this.tickets).flat();
+    return Array.from(this.tickets.values()).flat();
   }
 
   // Statistics
@@ -187,8 +274,7 @@ export class TicketCache {
       >,
     };
 
-    Object.entries(this.tickets).forEach(([type, tickets]) => {
-      const ticketType = type as TicketType;
+    this.tickets.forEach((tickets, ticketType) => {
       const openCount = tickets.filter((t) => !t.Closed).length;
       const closedCount = tickets.filter((t) => t.Closed).length;
 
@@ -214,6 +300,13 @@ export class TicketCache {
     );
   }
 
+  // Only counts tickets the user created, not the ones they were added to
+  public getOpenTicketCount(userId: string, type: TicketType): number {
+    return this.getTickets(type).filter(
+      (ticket) => !ticket.Closed && ticket.CreatedBy === userId
+    ).length;
+  }
+
   public getUserTicketCount(
     userId: string,
     includeClosedTickets = false
@@ -263,35 +356,9 @@ export class TicketCache {
     return results;
   }
 
-  // Ticket Specific Functions (simplified)
-  public getGeneralTickets(): ITicket[] {
-    return [...this.tickets.general];
-  }
-
-  public getBugTickets(): ITicket[] {
-    return [...this.tickets.bug];
-  }
-
-  public getFeatureTickets(): ITicket[] {
-    return [...this.tickets.feature];
-  }
-
-  public getApplicationTickets(): ITicket[] {
-    return [...this.tickets.application];
-  }
-
-  public getOtherTickets(): ITicket[] {
-    return [...this.tickets.other];
-  }
-
   public clear(): void {
-    this.tickets = {
-      general: [],
-      bug: [],
-      feature: [],
-      application: [],
-      other: [],
-    };
+    // Keep the registered category buckets, only drop their tickets
+    this.tickets.forEach((tickets) => tickets.splice(0));
     this.channelToTicketMap.clear();
     this.userToTicketsMap.clear();
   }
@@ -0,0 +1,272 @@
+import { randomUUID } from "node:crypto";
+import type {
+  Prisma,
+  PrismaClient,
+  TicketCategory as TicketCategoryRecord,
+} from "../../../prisma/generated/prisma";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import type { TicketCache } from "./TicketCache";
+import {
+  config,
+  type ITicketCategory,
+  type ITicketQuestion,
+} from "../../config";
+
+export type TicketCategoryInput = Omit<ITicketCategory, "Id">;
+
+// Discord modals cannot hold more than five text inputs
+export const MAX_TICKET_QUESTIONS = 5;
+
+export class TicketCategoryRepository {
+  private logger: Logger = LoggerFactory.create("TicketCategoryRepository");
+  private readonly prisma: PrismaClient;
+  private readonly ticketCache: TicketCache;
+
+  // Categories are read on every interaction, so all rows are kept in memory
+  private categories: Map<string, ITicketCategory> = new Map();
+
+  constructor(prisma: PrismaClient, ticketCache: TicketCache) {
+    this.prisma = prisma;
+    this.ticketCache = ticketCache;
+  }
+
+  public async load(): Promise<number> {
+    if ((await this.prisma.ticketCategory.count()) === 0) {
+      await this.seedDefaults();
+    }
+
+    const records = await this.prisma.ticketCategory.findMany({
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+
+    this.categories.clear();
+    for (const record of records) {
+      this.setCategory(this.toCategory(record));
+    }
+
+    return this.categories.size;
+  }
+
+  public get(id: string): ITicketCategory | undefined {
+    return this.categories.get(id);
+  }
+
+  public getAll(): ITicketCategory[] {
+    return Array.from(this.categories.values()).sort(
+      (a, b) => a.SortOrder - b.SortOrder
+    );
+  }
+
+  public getActive(): ITicketCategory[] {
+    return this.getAll().filter((category) => category.Active);
+  }
+
+  public getByDiscordCategoryId(
+    discordCategoryId: string
+  ): ITicketCategory | undefined {
+    return this.getAll().find(
+      (category) => category.DiscordCategoryId === discordCategoryId
+    );
+  }
+
+  public getByThreadChannelId(
+    threadChannelId: string
+  ): ITicketCategory | undefined {
+    return this.getAll().find(
+      (category) => category.ThreadChannelId === threadChannelId
+    );
+  }
+
+  // Accepts either the id or the (case-insensitive) name of a category
+  public resolve(query: string): ITicketCategory | undefined {
+    const normalized = query.trim().toLowerCase();
+    return (
+      this.categories.get(query.trim()) ??
+      this.getAll().find(
+        (category) => category.Name.toLowerCase() === normalized
+      )
+    );
+  }
+
+  // Comma separated ids or names, empty or "all" means every category. Returns an error message if invalid
+  public resolveMany(input: string | null): string[] | string {
+    if (!input || input.trim().toLowerCase() === "all") {
+      return [];
+    }
+
+    const categoryIds: string[] = [];
+
+    for (const query of input.split(",").filter((part) => part.trim())) {
+      const category = this.resolve(query);
+      if (!category) {
+        return `Ticket category "${query.trim()}" not found.`;
+      }
+      categoryIds.push(category.Id);
+    }
+
+    return categoryIds;
+  }
+
+  public async create(input: TicketCategoryInput): Promise<ITicketCategory> {
+    const record = await this.prisma.ticketCategory.create({
+      data: {
+        id: randomUUID(),
+        ...this.toRecordData(input),
+        name: input.Name,
+        discordCategoryId: input.DiscordCategoryId,
+        updatedAt: new Date(),
+      },
+    });
+
+    const category = this.toCategory(record);
+    this.setCategory(category);
+    return category;
+  }
+
+  public async update(
+    id: string,
+    changes: Partial<TicketCategoryInput>
+  ): Promise<ITicketCategory> {
+    const record = await this.prisma.ticketCategory.update({
+      where: { id },
+      data: {
+        ...this.toRecordData(changes),
+        updatedAt: new Date(),
+      },
+    });
+
+    const category = this.toCategory(record);
+    this.setCategory(category);
+    return category;
+  }
+
+  public async disable(id: string): Promise<ITicketCategory> {
+    return this.update(id, { Active: false });
+  }
+
+  // Moves a category to the given position and renumbers all others sequentially
+  public async reorder(id: string, position: number): Promise<void> {
+    const ordered = this.getAll().filter((category) => category.Id !== id);
+    const moved = this.categories.get(id);
+    if (!moved) {
+      throw new Error(`Ticket category ${id} not found`);
+    }
+
+    ordered.splice(Math.min(Math.max(position, 0), ordered.length), 0, moved);
+
+    await this.prisma.$transaction(
+      ordered.map((category, index) =>
+        this.prisma.ticketCategory.update({
+          where: { id: category.Id },
+          data: { sortOrder: index, updatedAt: new Date() },
+        })
+      )
+    );
+
+    ordered.forEach((category, index) => {
+      category.SortOrder = index;
+    });
+  }
+
+  private async seedDefaults(): Promise<void> {
+    const entries = Object.entries(config.ticket.defaultTicketTypes);
+
+    for (const [index, [id, typeConfig]] of entries.entries()) {
+      await this.prisma.ticketCategory.create({
+        data: {
+          id,
+          name: typeConfig.name,
+          description: typeConfig.description,
+          defaultMessage: typeConfig.defaultMessage,
+          emoji: typeConfig.emoji,
+          discordCategoryId: typeConfig.categoryId,
+          supportRoleIds: [config.ticket.permissions.supportRoleId],
+          questions: this.toQuestionsJson(typeConfig.questions ?? []),
+          sortOrder: index,
+          updatedAt: new Date(),
+        },
+      });
+    }
+
+    this.logger.info(`Seeded ${entries.length} default ticket categories`);
+  }
+
+  private setCategory(category: ITicketCategory): void {
+    this.categories.set(category.Id, category);
+    this.ticketCache.addType(category.Id);
+  }
+
+  private toRecordData(input: Partial<TicketCategoryInput>) {
+    return {
+      name: input.Name,
+      description: input.Description,
+      defaultMessage: input.DefaultMessage,
+      emoji: input.Emoji,
+      color: input.Color,
+      discordCategoryId: input.DiscordCategoryId,
+      threadChannelId: input.ThreadChannelId,
+      supportRoleIds: input.SupportRoleIds,
+      questions: input.Questions
+        ? this.toQuestionsJson(input.Questions)
+        : undefined,
+      firstResponseTargetMinutes: input.FirstResponseTargetMinutes,
+      resolutionTargetMinutes: input.ResolutionTargetMinutes,
+      maxOpenPerUser: input.MaxOpenPerUser,
+      sortOrder: input.SortOrder,
+      active: input.Active,
+    };
+  }
+
+  private toCategory(record: TicketCategoryRecord): ITicketCategory {
+    return {
+      Id: record.id,
+      Name: record.name,
+      Description: record.description,
+      DefaultMessage: record.defaultMessage,
+      Emoji: record.emoji,
+      Color: record.color,
+      DiscordCategoryId: record.discordCategoryId,
+      ThreadChannelId: record.threadChannelId,
+      SupportRoleIds: [...record.supportRoleIds],
+      Questions: this.toQuestions(record.questions),
+      FirstResponseTargetMinutes: record.firstResponseTargetMinutes,
+      ResolutionTargetMinutes: record.resolutionTargetMinutes,
+      MaxOpenPerUser: record.maxOpenPerUser,
+      SortOrder: record.sortOrder,
+      Active: record.active,
+    };
+  }
+
+  private toQuestionsJson(
+    questions: ITicketQuestion[]
+  ): Prisma.InputJsonArray {
+    return questions.slice(0, MAX_TICKET_QUESTIONS).map((question) => ({
+      label: question.Label,
+      placeholder: question.Placeholder,
+      style: question.Style,
+      required: question.Required,
+      minLength: question.MinLength,
+      maxLength: question.MaxLength,
+    }));
+  }
+
+  private toQuestions(value: Prisma.JsonValue): ITicketQuestion[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+      .filter(
+        (entry): entry is Prisma.JsonObject =>
+          typeof entry === "object" && entry !== null && !Array.isArray(entry)
+      )
+      .map((entry) => ({
+        Label: String(entry.label ?? ""),
+        Placeholder:
+          typeof entry.placeholder === "string" ? entry.placeholder : null,
+        Style: entry.style === "PARAGRAPH" ? "PARAGRAPH" : "SHORT",
+        Required: entry.required !== false,
+        MinLength: typeof entry.minLength === "number" ? entry.minLength : null,
+        MaxLength: typeof entry.maxLength === "number" ? entry.maxLength : null,
+      }));
+  }
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PrismaClient,
+  TicketFeedback as TicketFeedbackRecord,
+} from "../../../prisma/generated/prisma";
+import type { ITicket, ITicketFeedback } from "../../config";
+
+export interface TicketFeedbackAverage {
+  Id: string;
+  Average: number;
+  Count: number;
+}
+
+export class TicketFeedbackRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Users without a settings row get the schema default, which is enabled
+  public async hasNotificationsEnabled(userId: string): Promise<boolean> {
+    const settings = await this.prisma.userSettings.findUnique({
+      where: { userId },
+      select: { notifications: true },
+    });
+    return settings?.notifications ?? true;
+  }
+
+  public async findByTicketId(
+    ticketId: string
+  ): Promise<ITicketFeedback | null> {
+    const record = await this.prisma.ticketFeedback.findUnique({
+      where: { ticketId },
+    });
+    return record ? this.toFeedback(record) : null;
+  }
+
+  // Rating again replaces the previous rating, the comment is kept
+  public async saveRating(
+    ticket: ITicket,
+    rating: number
+  ): Promise<ITicketFeedback> {
+    const record = await this.prisma.ticketFeedback.upsert({
+      where: { ticketId: ticket.Id },
+      create: {
+        id: randomUUID(),
+        ticketId: ticket.Id,
+        userId: ticket.CreatedBy,
+        handlerId: ticket.HandledBy ?? null,
+        categoryId: ticket.Type || null,
+        rating,
+        updatedAt: new Date(),
+      },
+      update: { rating, updatedAt: new Date() },
+    });
+    return this.toFeedback(record);
+  }
+
+  public async saveComment(
+    ticketId: string,
+    comment: string
+  ): Promise<ITicketFeedback> {
+    const record = await this.prisma.ticketFeedback.update({
+      where: { ticketId },
+      data: { comment, updatedAt: new Date() },
+    });
+    return this.toFeedback(record);
+  }
+
+  public async getAveragesByHandler(): Promise<TicketFeedbackAverage[]> {
+    const groups = await this.prisma.ticketFeedback.groupBy({
+      by: ["handlerId"],
+      where: { handlerId: { not: null } },
+      _avg: { rating: true },
+      _count: { rating: true },
+    });
+
+    return groups
+      .map((group) => ({
+        Id: group.handlerId!,
+        Average: group._avg.rating ?? 0,
+        Count: group._count.rating,
+      }))
+      .sort((a, b) => b.Average - a.Average);
+  }
+
+  public async getAveragesByCategory(): Promise<TicketFeedbackAverage[]> {
+    const groups = await this.prisma.ticketFeedback.groupBy({
+      by: ["categoryId"],
+      where: { categoryId: { not: null } },
+      _avg: { rating: true },
+      _count: { rating: true },
+    });
+
+    return groups
+      .map((group) => ({
+        Id: group.categoryId!,
+        Average: group._avg.rating ?? 0,
+        Count: group._count.rating,
+      }))
+      .sort((a, b) => b.Average - a.Average);
+  }
+
+  public async findRecentByHandler(
+    handlerId: string,
+    limit = 5
+  ): Promise<ITicketFeedback[]> {
+    const records = await this.prisma.ticketFeedback.findMany({
+      where: { handlerId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    return records.map((record) => this.toFeedback(record));
+  }
+
+  private toFeedback(record: TicketFeedbackRecord): ITicketFeedback {
+    return {
+      Id: record.id,
+      TicketId: record.ticketId,
+      UserId: record.userId,
+      HandlerId: record.handlerId,
+      CategoryId: record.categoryId,
+      Rating: record.rating,
+      Comment: record.comment,
+      CreatedAt: record.createdAt,
+    };
+  }
+}
@@ -1,28 +1,105 @@
 import {
   ActionRowBuilder,
+  AttachmentBuilder,
   ButtonBuilder,
   ButtonStyle,
   ChannelType,
   EmbedBuilder,
+  ModalBuilder,
+  OverwriteType,
   PermissionFlagsBits,
+  TextInputBuilder,
+  TextInputStyle,
+  ThreadAutoArchiveDuration,
   type CategoryChannel,
   type Client,
   type Guild,
+  type GuildMember,
+  type Message,
+  type OverwriteResolvable,
   type Role,
   type TextChannel,
+  type AnyThreadChannel,
   type User,
 } from "discord.js";
 import type { Logger } from "../../logger";
 import { LoggerFactory } from "../../logger/factory";
 import { bootstrap } from "../..";
-import { TicketService } from "./TicketService";
+import type { TicketService } from "./TicketService";
 import type { TicketCache } from "./TicketCache";
-import { config, type ITicket, type TicketType } from "../../config";
+import type {
+  TicketRepository,
+  TicketSearchFilters,
+} from "./TicketRepository";
+import type { TicketCategoryRepository } from "./TicketCategoryRepository";
+import type { TicketFeedbackRepository } from "./TicketFeedbackRepository";
+import type { TicketBlacklistRepository } from "./TicketBlacklistRepository";
+import type { TicketNoteRepository } from "./TicketNoteRepository";
+import type { TicketStaffRepository } from "./TicketStaffRepository";
+import {
+  TicketTranscriptGenerator,
+  type TicketTranscriptResult,
+} from "./TicketTranscript";
+import { TicketAttachmentStore } from "./TicketAttachmentStore";
+import {
+  config,
+  type ITicket,
+  type ITicketCategory,
+  type ITicketIntakeAnswer,
+  type ITicketSnippet,
+  type TicketStatus,
+  type TicketType,
+} from "../../config";
+
+// Every status change has to be listed here, anything else is rejected
+const STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  OPEN: ["PENDING", "CLOSED"],
+  PENDING: ["OPEN", "CLOSED"],
+  CLOSED: ["OPEN", "ARCHIVED"],
+  ARCHIVED: ["OPEN"],
+};
+
+// Categories with a thread channel open private threads instead of text channels
+export type TicketChannel = TextChannel | AnyThreadChannel;
+
+const ARCHIVE_DELAY_MS = 30000;
+
+// Discord rejects moving a channel into a category that already holds 50
+const CATEGORY_CHANNEL_LIMIT = 50;
+const CAPACITY_WARNING_INTERVAL_MS = 60 * 60 * 1000;
+
+const SEARCH_PAGE_SIZE = 10;
+
+// Shared between handler instances so a reopen can cancel the archive of a close
+const scheduledArchives: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+// Guild-wide creation timestamps for the global cooldown and the rate limit
+const recentCreations: number[] = [];
+
+// Users whose ticket is being created right now, repeated clicks are rejected meanwhile
+const creatingUsers: Set<string> = new Set();
+
+// Channels whose archive is running, a close can no longer be cancelled then
+const archivingChannels: Set<string> = new Set();
+
+// Last auto-assigned staff member per category, the rotation restarts with the bot
+const lastAssignees: Map<TicketType, string> = new Map();
+
+let lastCapacityWarningAt = 0;
 
 export class TicketHandler {
   private logger: Logger = LoggerFactory.create("TicketHandler");
   private readonly client: Client;
   private readonly ticketCache: TicketCache | null = null;
+  private readonly ticketRepository: TicketRepository | null = null;
+  private readonly categoryRepository: TicketCategoryRepository | null = null;
+  private readonly feedbackRepository: TicketFeedbackRepository | null = null;
+  private readonly blacklistRepository: TicketBlacklistRepository | null =
+    null;
+  private readonly noteRepository: TicketNoteRepository | null = null;
+  private readonly staffRepository: TicketStaffRepository | null = null;
+  private readonly transcriptGenerator = new TicketTranscriptGenerator();
+  private readonly attachmentStore = new TicketAttachmentStore();
 
   constructor() {
     this.client = bootstrap.getClient().client!;
@@ -37,32 +114,113 @@ export class TicketHandler {
     }
 
     this.ticketCache = ticketService.getTicketCache();
+    this.ticketRepository = ticketService.getTicketRepository();
+    this.categoryRepository = ticketService.getCategoryRepository();
+    this.feedbackRepository = ticketService.getFeedbackRepository();
+    this.blacklistRepository = ticketService.getBlacklistRepository();
+    this.noteRepository = ticketService.getNoteRepository();
+    this.staffRepository = ticketService.getStaffRepository();
   }
 
   public getTicketCache(): TicketCache | null {
     return this.ticketCache;
   }
 
-  public async createTicket(
+  public getTicketRepository(): TicketRepository | null {
+    return this.ticketRepository;
+  }
+
+  public getCategory(ticketType: TicketType): ITicketCategory | undefined {
+    return this.categoryRepository?.get(ticketType);
+  }
+
+  // Categories without their own support roles fall back to the global one
+  public getSupportRoleIds(ticketType: TicketType): string[] {
+    const supportRoleIds = this.getCategory(ticketType)?.SupportRoleIds ?? [];
+    return supportRoleIds.length > 0
+      ? supportRoleIds
+      : [config.ticket.permissions.supportRoleId];
+  }
+
+  public isStaff(member: GuildMember, ticketType?: TicketType): boolean {
+    const staffRoles = [
+      config.ticket.permissions.supportRoleId,
+      ...config.ticket.permissions.allowedRoles,
+      ...config.moderation_roles,
+      ...(ticketType ? this.getSupportRoleIds(ticketType) : []),
+    ];
+
+    return staffRoles.some((roleId) => member.roles.cache.has(roleId));
+  }
+
+  // For commands that are not tied to a ticket, support roles of any category count
+  public isAnyStaff(member: GuildMember): boolean {
+    return (
+      this.isStaff(member) ||
+      (this.categoryRepository?.getAll() ?? []).some((category) =>
+        this.isStaff(member, category.Id)
+      )
+    );
+  }
+
+  public isModerator(member: GuildMember): boolean {
+    return config.moderation_roles.some((roleId) =>
+      member.roles.cache.has(roleId)
+    );
+  }
+
+  // Submitted as ticket_form_<type> (modmail_form_<type> from DMs) and handled by TicketButtonInteraction
+  public createIntakeModal(
+    category: ITicketCategory,
+    modmail = false
+  ): ModalBuilder {
+    const modal = new ModalBuilder()
+      .setCustomId(`${modmail ? "modmail_form" : "ticket_form"}_${category.Id}`)
+      .setTitle(`${category.Name} Ticket`.slice(0, 45));
+
+    category.Questions.forEach((question, index) => {
+      const input = new TextInputBuilder()
+        .setCustomId(`question_${index}`)
+        .setLabel(question.Label)
+        .setStyle(
+          question.Style === "PARAGRAPH"
+            ? TextInputStyle.Paragraph
+            : TextInputStyle.Short
+        )
+        .setRequired(question.Required);
+
+      if (question.Placeholder) input.setPlaceholder(question.Placeholder);
+      if (question.MinLength) input.setMinLength(question.MinLength);
+      if (question.MaxLength) input.setMaxLength(question.MaxLength);
+
+      modal.addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(input)
+      );
+    });
+
+    return modal;
+  }
+
+  // Checks run before the intake form is shown and again when the ticket is created
+  public async validateTicketCreation(
     userId: string,
     ticketType: TicketType,
     guild: Guild
-  ): Promise<{ success: boolean; channel?: TextChannel; message?: string }> {
-    if (!this.ticketCache) {
+  ): Promise<{ success: boolean; message?: string }> {
+    if (!this.ticketCache || !this.ticketRepository) {
       return { success: false, message: "TicketService not found" };
     }
-    // Ticket Limit to 50 Until we store it in DB
-    if (this.ticketCache.getAllTickets().length >= 50) {
-      return { success: false, message: "Ticket limit reached" };
-    }
 
-    if (!config.ticket.settings.allowMultipleTickets) {
-      if (this.ticketCache.hasOpenTicket(userId, ticketType)) {
-        return { success: false, message: "You already have an open ticket" };
-      }
+
+    // Modmail users are not necessarily in the guild, fetching them fails with Unknown Member
+    const member = await guild.members.fetch(userId).catch(() => null);
+    if (!member) {
+      return {
+        success: false,
+        message: "You must be a member of the server to open a ticket.",
+      };
     }
 
-    const member = await guild.members.fetch(userId);
     const hasBlacklistedRole = member.roles.cache.some((role: Role) => {
       return config.ticket.permissions.blacklistedRoles.includes(role.id);
     });
@@ -74,78 +232,201 @@ export class TicketHandler {
       };
     }
 
-    const type = config.ticket.ticketTypes[ticketType];
-    if (!type) {
+    const blacklistEntry = await this.blacklistRepository?.findActive(userId);
+    if (blacklistEntry) {
+      const until = blacklistEntry.ExpiresAt
+        ? `until <t:${Math.floor(blacklistEntry.ExpiresAt.getTime() / 1000)}:f>`
+        : "permanently";
+      return {
+        success: false,
+        message: `You are blocked from creating tickets ${until}. Reason: ${blacklistEntry.Reason}`,
+      };
+    }
+
+    const type = this.getCategory(ticketType);
+    if (!type || !type.Active) {
       return { success: false, message: "Invalid ticket type" };
     }
 
-    const category = guild.channels.cache.get(
-      type.categoryId
-    ) as CategoryChannel;
+    const maxOpen =
+      type.MaxOpenPerUser ??
+      (config.ticket.settings.allowMultipleTickets ? null : 1);
+    if (
+      maxOpen !== null &&
+      this.ticketCache.getOpenTicketCount(userId, ticketType) >= maxOpen
+    ) {
+      return {
+        success: false,
+        message:
+          maxOpen === 1
+            ? "You already have an open ticket"
+            : `You already have ${maxOpen} open ${type.Name} tickets`,
+      };
+    }
+
+    const cooldownSeconds = config.ticket.settings.userCreationCooldownSeconds;
+    if (cooldownSeconds > 0) {
+      const lastCreatedAt =
+        await this.ticketRepository.findLatestCreatedAt(userId);
+      const availableAt = lastCreatedAt
+        ? lastCreatedAt.getTime() + cooldownSeconds * 1000
+        : 0;
+      if (availableAt > Date.now()) {
+        return {
+          success: false,
+          message: `You can open another ticket <t:${Math.ceil(availableAt / 1000)}:R>`,
+        };
+      }
+    }
 
-    if (!category) {
+    if (type.ThreadChannelId) {
+      const parent = guild.channels.cache.get(type.ThreadChannelId);
+      if (!parent || parent.type !== ChannelType.GuildText) {
+        return { success: false, message: "Ticket channel not found" };
+      }
+    } else if (!guild.channels.cache.has(type.DiscordCategoryId)) {
       return { success: false, message: "Ticket category not found" };
     }
 
+    return { success: true };
+  }
+
+  public async createTicket(
+    userId: string,
+    ticketType: TicketType,
+    guild: Guild,
+    answers: ITicketIntakeAnswer[] = [],
+    modmail = false
+  ): Promise<{ success: boolean; channel?: TicketChannel; message?: string }> {
+    const validation = await this.validateTicketCreation(
+      userId,
+      ticketType,
+      guild
+    );
+    if (!validation.success) {
+      return validation;
+    }
+
+    if (creatingUsers.has(userId)) {
+      return {
+        success: false,
+        message: "Your previous ticket is still being created",
+      };
+    }
+
+    creatingUsers.add(userId);
+    try {
+      const reservedAt = await this.acquireCreationSlot();
+      if (reservedAt === null) {
+        return {
+          success: false,
+          message:
+            "Too many tickets are being opened right now, please try again in a minute",
+        };
+      }
+
+      // A queued creation may have waited long enough for a limit or block to apply
+      const revalidation = await this.validateTicketCreation(
+        userId,
+        ticketType,
+        guild
+      );
+      if (!revalidation.success) {
+        this.releaseCreationSlot(reservedAt);
+        return revalidation;
+      }
+
+      return await this.openTicket(userId, ticketType, guild, answers, modmail);
+    } finally {
+      creatingUsers.delete(userId);
+    }
+  }
+
+  // Creation itself, only called by createTicket once the checks and the rate limit passed
+  private async openTicket(
+    userId: string,
+    ticketType: TicketType,
+    guild: Guild,
+    answers: ITicketIntakeAnswer[],
+    modmail: boolean
+  ): Promise<{ success: boolean; channel?: TicketChannel; message?: string }> {
+    const member = await guild.members.fetch(userId);
+    const type = this.getCategory(ticketType)!;
     const channelName = this.generateChannelName(userId, ticketType);
 
-    const ticketChannel = await guild.channels.create({
-      name: channelName,
-      type: ChannelType.GuildText,
-      parent: category,
-      permissionOverwrites: [
-        {
-          id: guild.roles.everyone.id,
-          deny: [PermissionFlagsBits.ViewChannel],
-        },
-        {
-          id: userId,
-          allow: [
-            PermissionFlagsBits.ViewChannel,
-            PermissionFlagsBits.SendMessages,
-            PermissionFlagsBits.ReadMessageHistory,
-            PermissionFlagsBits.AttachFiles,
-          ],
-        },
-        {
-          id: config.ticket.permissions.supportRoleId,
-          allow: [
-            PermissionFlagsBits.ViewChannel,
-            PermissionFlagsBits.SendMessages,
-            PermissionFlagsBits.ReadMessageHistory,
-            PermissionFlagsBits.AttachFiles,
-            PermissionFlagsBits.ManageMessages,
-          ],
-        },
-        ...config.ticket.permissions.allowedRoles.map((roleId) => ({
-          id: roleId,
-          allow: [
-            PermissionFlagsBits.ViewChannel,
-            PermissionFlagsBits.SendMessages,
-            PermissionFlagsBits.ReadMessageHistory,
-            PermissionFlagsBits.AttachFiles,
-          ],
-        })),
-      ],
-    });
+    // Modmail creators talk through the bot and never see the channel
+    const members = modmail ? [] : [userId];
+    const ticketChannel: TicketChannel = type.ThreadChannelId
+      ? await this.createTicketThread(guild, type, channelName, members)
+      : await guild.channels.create({
+          name: channelName,
+          type: ChannelType.GuildText,
+          parent: guild.channels.cache.get(
+            type.DiscordCategoryId
+          ) as CategoryChannel,
+          permissionOverwrites: this.buildPermissionOverwrites(
+            guild,
+            ticketType,
+            members
+          ),
+        });
 
     if (!ticketChannel) {
       return { success: false, message: "Failed to create ticket channel" };
     }
 
-    const ticketObject: ITicket = {
-      ChannelId: ticketChannel.id,
-      CreatedAt: new Date(),
-      CreatedBy: userId,
-      Type: ticketType,
-      Closed: false,
-      Users: [userId],
-      ClosedAt: null,
-    };
+    let ticketObject: ITicket;
+    try {
+      ticketObject = await this.ticketRepository!.create({
+        ChannelId: ticketChannel.id,
+        CreatedAt: new Date(),
+        CreatedBy: userId,
+        Type: ticketType,
+        Status: "OPEN",
+        Closed: false,
+        Users: [userId],
+        ClosedAt: null,
+        Modmail: modmail,
+        Subject: answers[0]?.Answer.slice(0, 100) || undefined,
+        Reason:
+          answers.length > 0
+            ? answers
+                .map((entry) => `${entry.Question}\n${entry.Answer}`)
+                .join("\n\n")
+            : undefined,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error storing ticket:", err);
+      await ticketChannel.delete().catch(() => null);
+      return { success: false, message: "Failed to store ticket" };
+    }
 
-    this.ticketCache.addTicket(ticketObject);
+    const assignee = await this.autoAssign(ticketChannel, ticketObject, guild);
 
-    await this.sendTicketOpenMessage(ticketChannel, ticketObject, member.user);
+    await this.sendTicketOpenMessage(
+      ticketChannel,
+      ticketObject,
+      member.user,
+      assignee
+    );
+    if (answers.length > 0) {
+      await this.sendIntakeAnswers(ticketChannel, ticketObject, answers);
+    }
+    if (modmail) {
+      await ticketChannel.send({
+        embeds: [
+          new EmbedBuilder()
+            .setTitle("✉️ Modmail Ticket")
+            .setDescription(
+              `${member.user} opened this ticket by DM and cannot see this channel. ` +
+                "Their messages are relayed here, answer them with `/ticket reply`."
+            )
+            .setColor(0x3498db)
+            .setFooter({ text: "Eterna - Support Team" }),
+        ],
+      });
+    }
     await this.logTicketAction("open", ticketObject, member.user);
     return {
       success: true,
@@ -159,41 +440,54 @@ export class TicketHandler {
     reason?: string
   ): Promise<{ success: boolean; message?: string }> {
     try {
-      const ticket = this.ticketCache?.getTicket(channelId);
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
       if (!ticket) {
         return { success: false, message: "Ticket not found." };
       }
 
-      if (ticket.Closed) {
-        return { success: false, message: "Ticket is already closed." };
+      const transitionError = this.checkTransition(ticket, "CLOSED");
+      if (transitionError) {
+        return { success: false, message: transitionError };
       }
 
-      ticket.Closed = true;
-      ticket.ClosedAt = new Date();
-      ticket.ClosedBy = closedBy;
-      ticket.CloseReason = reason;
-
-      const channel = this.client.channels.cache.get(channelId) as TextChannel;
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
       if (!channel) {
         return { success: false, message: "Channel not found." };
       }
 
+      const archiveAt = new Date(Date.now() + ARCHIVE_DELAY_MS);
+
       const closingEmbed = new EmbedBuilder()
         .setTitle("🔒 Ticket Closing")
-        .setDescription("This ticket will be archived in 30 seconds...")
+        .setDescription(
+          `This ticket will be archived <t:${Math.floor(
+            archiveAt.getTime() / 1000
+          )}:R>...`
+        )
         .setColor(0xe74c3c)
         .setFooter({ text: "Eterna - Support Team" })
         .setTimestamp();
 
-      await channel.send({ embeds: [closingEmbed] });
+      const closingRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`cancel_close_${channel.id}`)
+          .setLabel("Cancel close")
+          .setEmoji("↩️")
+          .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+          .setCustomId(`archive_ticket_${channel.id}`)
+          .setLabel("Archive Now")
+          .setEmoji("🗄️")
+          .setStyle(ButtonStyle.Secondary)
+      );
 
-      setTimeout(async () => {
-        await this.archiveTicket(ticket, channel);
-      }, 30000);
+      const previousStatus = ticket.Status;
+      await this.ticketRepository!.close(ticket, closedBy, reason, archiveAt);
+      await this.auditTransition(ticket, previousStatus, closedBy, reason);
+      await channel.send({ embeds: [closingEmbed], components: [closingRow] });
 
-      const closedByUser = await this.client.users.fetch(closedBy);
-      await this.logTicketAction("closed", ticket, closedByUser, reason);
-      this.ticketCache?.closeTicket(channelId, reason, closedBy);
+      // Transcript, DMs and survey wait for the archive, the close can still be cancelled
+      this.scheduleArchive(ticket, channel);
 
       return { success: true };
     } catch (error) {
@@ -205,221 +499,2219 @@ export class TicketHandler {
     }
   }
 
-  public async addUserToTicket(
+  // Marks the ticket as waiting on the creator, it stays open meanwhile
+  public async markPending(
     channelId: string,
-    userId: string,
-    addedBy: string
+    markedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    return this.changeOpenStatus(channelId, "PENDING", markedBy);
+  }
+
+  public async resumeTicket(
+    channelId: string,
+    resumedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    return this.changeOpenStatus(channelId, "OPEN", resumedBy);
+  }
+
+  public async reopenTicket(
+    channelId: string,
+    reopenedBy: string
   ): Promise<{ success: boolean; message?: string }> {
     try {
-      const ticket = this.ticketCache?.getTicket(channelId);
-      if (!ticket || ticket.Closed) {
+      const ticket = await this.ticketRepository?.findByChannelId(
+        channelId,
+        true
+      );
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      const transitionError = this.checkTransition(ticket, "OPEN");
+      if (transitionError) {
+        return { success: false, message: transitionError };
+      }
+
+      if (ticket.Status === "PENDING") {
+        return { success: false, message: "Ticket is not closed." };
+      }
+
+      const channel = await this.fetchTicketChannel(channelId);
+      if (!channel) {
         return {
           success: false,
-          message: "Ticket not found or already closed.",
+          message: "The ticket channel no longer exists.",
         };
       }
 
-      if (ticket.Users.includes(userId)) {
-        return { success: false, message: "User is already in this ticket." };
+      const category = this.getCategory(ticket.Type);
+      if (!category) {
+        return { success: false, message: "Ticket category not found." };
       }
 
-      const channel = this.client.channels.cache.get(channelId) as TextChannel;
-      if (!channel) {
-        return { success: false, message: "Channel not found." };
-      }
+      this.cancelScheduledArchive(channelId);
 
-      await channel.permissionOverwrites.create(userId, {
-        ViewChannel: true,
-        SendMessages: true,
-        ReadMessageHistory: true,
-        AttachFiles: true,
-      });
+      if (channel.isThread()) {
+        if (ticket.Status === "ARCHIVED") {
+          await channel.setArchived(false);
+          await channel.setLocked(false);
+          await channel.setName(channel.name.replace(/^archived-/, ""));
+        }
 
-      ticket.Users.push(userId);
+        // Archiving removes the participants from the thread
+        for (const userId of this.getChannelMembers(ticket)) {
+          await channel.members.add(userId);
+        }
+      } else {
+        if (ticket.Status === "ARCHIVED") {
+          const parent = channel.guild.channels.cache.get(
+            category.DiscordCategoryId
+          ) as CategoryChannel;
+          if (!parent) {
+            return {
+              success: false,
+              message: "The Discord category of this ticket type is missing.",
+            };
+          }
 
-      const user = await this.client.users.fetch(userId);
-      const addedByUser = await this.client.users.fetch(addedBy);
+          await channel.setParent(parent, { lockPermissions: false });
+          await channel.setName(channel.name.replace(/^archived-/, ""));
+        }
+
+        // Archiving strips the member overwrites, so they are rebuilt from the participants
+        await channel.permissionOverwrites.set(
+          this.buildPermissionOverwrites(
+            channel.guild,
+            ticket.Type,
+            this.getChannelMembers(ticket)
+          )
+        );
+      }
+
+      const previousStatus = ticket.Status;
+      await this.ticketRepository!.reopen(ticket);
+      await this.applyHandlerPermissions(
+        channel,
+        ticket,
+        null,
+        ticket.HandledBy ?? null
+      );
+      await this.auditTransition(ticket, previousStatus, reopenedBy);
 
+      const reopenedByUser = await this.client.users.fetch(reopenedBy);
       const embed = new EmbedBuilder()
-        .setTitle("➕ User Added to Ticket")
-        .setDescription(
-          `${user} has been added to this ticket by ${addedByUser}`
-        )
-        .setColor(0x3498db)
+        .setTitle("🔓 Ticket Reopened")
+        .setDescription(`${reopenedByUser} reopened this ticket.`)
+        .setColor(0x2ecc71)
+        .setFooter({ text: "Eterna - Support Team" })
         .setTimestamp();
 
-      await channel.send({ embeds: [embed] });
+      await channel.send({
+        embeds: [embed],
+        components: this.createTicketControls(channel.id),
+      });
+      await this.logTicketAction("reopened", ticket, reopenedByUser);
 
       return { success: true };
     } catch (error) {
-      this.logger.info("Error adding user to ticket:", error);
+      this.logger.info("Error reopening ticket:", error);
       return {
         success: false,
-        message: "An error occurred while adding the user.",
+        message: "An error occurred while reopening the ticket.",
       };
     }
   }
 
-  public async removeUserFromTicket(
+  // Aborts the archive countdown of a ticket that was just closed
+  public async cancelClose(
     channelId: string,
-    userId: string,
-    removedBy: string
+    cancelledBy: string
   ): Promise<{ success: boolean; message?: string }> {
     try {
-      const ticket = this.ticketCache?.getTicket(channelId);
-      if (!ticket || ticket.Closed) {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Status !== "CLOSED") {
+        return { success: false, message: "This ticket is not being closed." };
+      }
+
+      // Its participants and audit trail already moved on to the target ticket
+      if (ticket.MergedInto) {
         return {
           success: false,
-          message: "Ticket not found or already closed.",
+          message:
+            "This ticket was merged into another ticket and cannot be kept open.",
         };
       }
 
-      if (!ticket.Users.includes(userId)) {
-        return { success: false, message: "User is not in this ticket." };
+      if (archivingChannels.has(channelId)) {
+        return {
+          success: false,
+          message: "This ticket is already being archived.",
+        };
       }
 
-      // Can't remove the ticket creator
-      if (ticket.CreatedBy === userId) {
-        return { success: false, message: "Cannot remove the ticket creator." };
-      }
+      // The channel is only touched on archive, so clearing the close details is enough
+      this.cancelScheduledArchive(channelId);
+      await this.ticketRepository!.reopen(
+        ticket,
+        ticket.StatusBeforeClose ?? "OPEN"
+      );
 
-      const channel = this.client.channels.cache.get(channelId) as TextChannel;
-      if (!channel) {
-        return { success: false, message: "Channel not found." };
+      try {
+        await this.ticketRepository!.recordAudit(
+          ticket,
+          "close_cancelled",
+          cancelledBy
+        );
+      } catch (error) {
+        this.logger.info("Error recording ticket audit entry:", error);
       }
 
-      // Remove permissions
-      await channel.permissionOverwrites.delete(userId);
-
-      // Remove user from ticket
-      ticket.Users = ticket.Users.filter((id) => id !== userId);
-
-      // Notify in channel
-      const user = await this.client.users.fetch(userId);
-      const removedByUser = await this.client.users.fetch(removedBy);
-
-      const embed = new EmbedBuilder()
-        .setTitle("➖ User Removed from Ticket")
-        .setDescription(
-          `${user} has been removed from this ticket by ${removedByUser}`
-        )
-        .setColor(0xe74c3c)
-        .setTimestamp();
-
-      await channel.send({ embeds: [embed] });
-
       return { success: true };
     } catch (error) {
-      this.logger.info("Error removing user from ticket:", error);
+      this.logger.info("Error cancelling ticket close:", error);
       return {
         success: false,
-        message: "An error occurred while removing the user.",
+        message: "An error occurred while cancelling the close.",
       };
     }
   }
 
-  private generateChannelName(userId: string, ticketType: TicketType): string {
-    const pattern = config.ticket.settings.ticketNamingPattern;
-    return pattern
-      .replace("{username}", `user-${userId.slice(-4)}`)
-      .replace("{ticketType}", ticketType)
-      .toLowerCase();
-  }
+  // Startup sweep: archives overdue tickets and reschedules the rest
+  public async resumeScheduledArchives(): Promise<number> {
+    if (!this.ticketRepository) return 0;
 
-  private async sendTicketOpenMessage(
-    channel: TextChannel,
-    ticket: ITicket,
-    user: User
-  ): Promise<void> {
-    const ticketTypeConfig = config.ticket.ticketTypes[ticket.Type];
+    const tickets = await this.ticketRepository.findScheduledArchives();
+    for (const ticket of tickets) {
+      const channel = await this.fetchTicketChannel(ticket.ChannelId);
 
-    const embed = new EmbedBuilder()
-      .setTitle(`🧾 ${ticketTypeConfig.name} Ticket Opened`)
-      .setDescription(
-        `Hello ${user},\n\n` +
-          `Thank you for opening a **${ticketTypeConfig.name}** ticket. A member of our support team will be with you shortly.\n\n` +
-          `${ticketTypeConfig.defaultMessage}\n\n` +
-          `<@&${config.ticket.permissions.alertRoleId}>`
-      )
-      .setColor(0x2ecc71)
-      .setFooter({ text: "Eterna - Support Team" })
-      .setTimestamp();
+      if (!channel) {
+        // The channel is gone, only the database still has to catch up
+        await this.ticketRepository.archive(ticket);
+        await this.auditTransition(
+          ticket,
+          "CLOSED",
+          ticket.ClosedBy ?? this.client.user!.id
+        );
+        await this.notifyCreatorArchived(ticket);
+        continue;
+      }
 
-    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-      new ButtonBuilder()
-        .setCustomId(`close_ticket_${channel.id}`)
-        .setLabel("Close Ticket")
-        .setEmoji("🔒")
-        .setStyle(ButtonStyle.Danger),
-      new ButtonBuilder()
-        .setCustomId(`add_user_${channel.id}`)
-        .setLabel("Add User")
-        .setEmoji("➕")
-        .setStyle(ButtonStyle.Secondary),
-      new ButtonBuilder()
-        .setCustomId(`remove_user_${channel.id}`)
-        .setLabel("Remove User")
-        .setEmoji("➖")
-        .setStyle(ButtonStyle.Secondary)
-    );
+      this.scheduleArchive(ticket, channel);
+    }
 
-    await channel.send({ embeds: [embed], components: [row] });
+    return tickets.length;
   }
 
-  private async archiveTicket(
-    ticket: ITicket,
-    channel: TextChannel
-  ): Promise<void> {
+  // Skips the remaining delay of a closed ticket
+  public async archiveClosedTicket(
+    channelId: string,
+    archivedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
     try {
-      const archiveCategory = channel.guild.channels.cache.get(
-        config.ticket.channelConfig.ticketArchiveCategoryId
-      ) as CategoryChannel;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
 
-      if (archiveCategory) {
-        await channel.setParent(archiveCategory);
-        await channel.setName(`archived-${channel.name}`);
+      const transitionError = this.checkTransition(ticket, "ARCHIVED");
+      if (transitionError) {
+        return { success: false, message: transitionError };
+      }
 
-        // Remove all user permissions except support staff
-        const permissionOverwrites = channel.permissionOverwrites.cache;
-        for (const [id, permission] of permissionOverwrites) {
-          if (
-            id !== channel.guild.roles.everyone.id &&
-            id !== config.ticket.permissions.supportRoleId &&
-            !config.ticket.permissions.allowedRoles.includes(id)
-          ) {
-            await channel.permissionOverwrites.delete(id);
-          }
-        }
-      } else {
-        // If no archive category, delete the channel
-        await channel.delete();
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
       }
+
+      this.cancelScheduledArchive(channelId);
+
+      const archived = await this.archiveTicket(ticket, channel, archivedBy);
+      return archived
+        ? { success: true }
+        : {
+            success: false,
+            message: "An error occurred while archiving the ticket.",
+          };
     } catch (error) {
       this.logger.info("Error archiving ticket:", error);
-    }
-  }
+      return {
+        success: false,
+        message: "An error occurred while archiving the ticket.",
+      };
+    }
+  }
+
+  public async rateTicket(
+    ticketId: string,
+    userId: string,
+    rating: number
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return { success: false, message: "Ratings go from 1 to 5 stars." };
+      }
+
+      const ticket = await this.ticketRepository?.findById(ticketId);
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      if (ticket.CreatedBy !== userId) {
+        return {
+          success: false,
+          message: "Only the creator of a ticket can rate it.",
+        };
+      }
+
+      if (!ticket.Closed) {
+        return { success: false, message: "This ticket is still open." };
+      }
+
+      await this.feedbackRepository!.saveRating(ticket, rating);
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error rating ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while saving your rating.",
+      };
+    }
+  }
+
+  public async commentOnTicket(
+    ticketId: string,
+    userId: string,
+    comment: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const feedback = await this.feedbackRepository?.findByTicketId(ticketId);
+      if (!feedback) {
+        return { success: false, message: "Please rate the ticket first." };
+      }
+
+      if (feedback.UserId !== userId) {
+        return {
+          success: false,
+          message: "Only the creator of a ticket can comment on it.",
+        };
+      }
+
+      await this.feedbackRepository!.saveComment(ticketId, comment);
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error saving ticket feedback comment:", error);
+      return {
+        success: false,
+        message: "An error occurred while saving your comment.",
+      };
+    }
+  }
+
+  public async addUserToTicket(
+    channelId: string,
+    userId: string,
+    addedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      if (ticket.Users.includes(userId)) {
+        return { success: false, message: "User is already in this ticket." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      await this.grantTicketAccess(channel, userId);
+      await this.ticketRepository!.addUser(ticket, userId);
+
+      const user = await this.client.users.fetch(userId);
+      const addedByUser = await this.client.users.fetch(addedBy);
+
+      const embed = new EmbedBuilder()
+        .setTitle("➕ User Added to Ticket")
+        .setDescription(
+          `${user} has been added to this ticket by ${addedByUser}`
+        )
+        .setColor(0x3498db)
+        .setTimestamp();
+
+      await channel.send({ embeds: [embed] });
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error adding user to ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while adding the user.",
+      };
+    }
+  }
+
+  // Moves the participants of the source into the target and closes the source
+  public async mergeTicket(
+    sourceChannelId: string,
+    targetChannelId: string,
+    mergedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const source = await this.ticketRepository?.findByChannelId(
+        sourceChannelId
+      );
+      const target = await this.ticketRepository?.findByChannelId(
+        targetChannelId
+      );
+      if (!source || !target) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      if (source.Id === target.Id) {
+        return {
+          success: false,
+          message: "A ticket cannot be merged into itself.",
+        };
+      }
+
+      if (source.Closed || target.Closed) {
+        return {
+          success: false,
+          message: "Only open tickets can be merged.",
+        };
+      }
+
+      // Modmail creators never see the channel, so they cannot join a regular ticket
+      if (source.Modmail !== target.Modmail) {
+        return {
+          success: false,
+          message:
+            "Modmail tickets can only be merged with other modmail tickets.",
+        };
+      }
+
+      const targetChannel = this.client.channels.cache.get(
+        targetChannelId
+      ) as TicketChannel;
+      if (!targetChannel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      // Nothing is written before the close went through, a failed close leaves both tickets untouched
+      const closeResult = await this.closeTicket(
+        sourceChannelId,
+        mergedBy,
+        `Merged into <#${targetChannelId}>`
+      );
+      if (!closeResult.success) {
+        return closeResult;
+      }
+
+      // The merge link goes in right after the close, a closed source without it is undone
+      try {
+        await this.ticketRepository!.setMergedInto(source, target);
+      } catch (error) {
+        await this.cancelClose(sourceChannelId, mergedBy);
+        throw error;
+      }
+      await this.ticketRepository!.recordAudit(source, "merged", mergedBy, {
+        targetTicketId: target.Id,
+      });
+
+      const added = source.Users.filter(
+        (userId) =>
+          !target.Users.includes(userId) &&
+          !(source.Modmail && userId === source.CreatedBy)
+      );
+      for (const userId of added) {
+        await this.grantTicketAccess(targetChannel, userId);
+        await this.ticketRepository!.addUser(target, userId);
+      }
+
+      const sourceChannel = this.client.channels.cache.get(
+        sourceChannelId
+      ) as TicketChannel | undefined;
+      await sourceChannel?.send({
+        embeds: [
+          new EmbedBuilder()
+            .setTitle("🔗 Ticket Merged")
+            .setDescription(
+              `This ticket has been merged into <#${targetChannelId}>, please continue there.`
+            )
+            .setColor(0x9b59b6)
+            .setFooter({ text: "Eterna - Support Team" }),
+        ],
+      });
+
+      const typeName = this.getCategory(source.Type)?.Name ?? source.Type;
+
+      const embed = new EmbedBuilder()
+        .setTitle("🔗 Ticket Merged")
+        .setDescription(
+          `<@${mergedBy}> merged the **${typeName}** ticket of <@${source.CreatedBy}> into this ticket.`
+        )
+        .addFields(
+          {
+            name: "Subject",
+            value: source.Subject ?? "*None*",
+            inline: true,
+          },
+          {
+            name: "Opened",
+            value: `<t:${Math.floor(source.CreatedAt.getTime() / 1000)}:f>`,
+            inline: true,
+          },
+          {
+            name: "Participants Added",
+            value:
+              added.length > 0
+                ? added.map((userId) => `<@${userId}>`).join(", ")
+                : "*None*",
+          },
+          {
+            name: "Transcript",
+            value: "Linked here once the merged ticket is archived.",
+          }
+        )
+        .setColor(0x9b59b6)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      await targetChannel.send({
+        content: added.map((userId) => `<@${userId}>`).join(" ") || undefined,
+        embeds: [embed],
+      });
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error merging tickets:", error);
+      return {
+        success: false,
+        message: "An error occurred while merging the tickets.",
+      };
+    }
+  }
+
+  public async removeUserFromTicket(
+    channelId: string,
+    userId: string,
+    removedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      if (!ticket.Users.includes(userId)) {
+        return { success: false, message: "User is not in this ticket." };
+      }
+
+      // Can't remove the ticket creator
+      if (ticket.CreatedBy === userId) {
+        return { success: false, message: "Cannot remove the ticket creator." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      // Remove permissions
+      if (channel.isThread()) {
+        await channel.members.remove(userId);
+      } else {
+        await channel.permissionOverwrites.delete(userId);
+      }
+
+      // Remove user from ticket
+      await this.ticketRepository!.removeUser(ticket, userId);
+
+      // Notify in channel
+      const user = await this.client.users.fetch(userId);
+      const removedByUser = await this.client.users.fetch(removedBy);
+
+      const embed = new EmbedBuilder()
+        .setTitle("➖ User Removed from Ticket")
+        .setDescription(
+          `${user} has been removed from this ticket by ${removedByUser}`
+        )
+        .setColor(0xe74c3c)
+        .setTimestamp();
+
+      await channel.send({ embeds: [embed] });
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error removing user from ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while removing the user.",
+      };
+    }
+  }
+
+  // Forwards a DM of the creator into the staff-side channel of a modmail ticket
+  public async relayModmailMessage(
+    ticket: ITicket,
+    message: Message
+  ): Promise<boolean> {
+    const channel = this.client.channels.cache.get(ticket.ChannelId) as
+      | TicketChannel
+      | undefined;
+    if (!channel) return false;
+
+    const embed = new EmbedBuilder()
+      .setAuthor({
+        name: message.author.tag,
+        iconURL: message.author.displayAvatarURL(),
+      })
+      .setDescription(message.content || "*No text*")
+      .setColor(0x3498db)
+      .setFooter({ text: `User ID: ${message.author.id}` })
+      .setTimestamp(message.createdAt);
+
+    await channel.send({
+      embeds: [embed],
+      files: message.attachments.map((attachment) => ({
+        attachment: attachment.url,
+        name: attachment.name,
+      })),
+    });
+
+    if (message.content) {
+      await this.ticketRepository
+        ?.storeMessage(ticket, {
+          id: message.id,
+          authorId: message.author.id,
+          content: message.content,
+          createdAt: message.createdAt,
+        })
+        .catch((error) => {
+          this.logger.info("Error storing modmail message:", error);
+        });
+    }
+    return true;
+  }
+
+  // Sends a staff answer of a modmail ticket to the creator and keeps a copy in the channel
+  public async replyToModmail(
+    channelId: string,
+    staff: User,
+    content: string,
+    attachments: { url: string; name: string }[],
+    anonymous: boolean
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      if (!ticket.Modmail) {
+        return { success: false, message: "This is not a modmail ticket." };
+      }
+
+      if (ticket.Closed) {
+        return { success: false, message: "Ticket is closed." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      const files = attachments.map((attachment) => ({
+        attachment: attachment.url,
+        name: attachment.name,
+      }));
+
+      const reply = new EmbedBuilder()
+        .setAuthor(
+          anonymous
+            ? { name: "Support Team" }
+            : { name: staff.tag, iconURL: staff.displayAvatarURL() }
+        )
+        .setDescription(content)
+        .setColor(0x2ecc71)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      const creator = await this.client.users.fetch(ticket.CreatedBy);
+      const delivered = await creator
+        .send({ embeds: [reply], files })
+        .then(() => true)
+        .catch(() => false);
+
+      if (!delivered) {
+        return {
+          success: false,
+          message: "Could not DM the user, they may have closed their DMs.",
+        };
+      }
+
+      const copy = EmbedBuilder.from(reply)
+        .setAuthor({ name: staff.tag, iconURL: staff.displayAvatarURL() })
+        .setFooter({
+          text: anonymous ? "Sent anonymously" : "Sent to the user",
+        });
+      await channel.send({ embeds: [copy], files });
+
+      if (!ticket.FirstResponseAt) {
+        await this.ticketRepository!.setFirstResponse(
+          ticket,
+          staff.id,
+          new Date()
+        );
+      }
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error replying to modmail ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while sending the reply.",
+      };
+    }
+  }
+
+  // Modmail tickets get the snippet relayed to the creator's DMs like a normal reply
+  public async sendSnippet(
+    channelId: string,
+    snippet: ITicketSnippet,
+    staff: User
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      if (ticket.Closed) {
+        return { success: false, message: "Ticket is closed." };
+      }
+
+      if (
+        snippet.CategoryIds.length > 0 &&
+        !snippet.CategoryIds.includes(ticket.Type)
+      ) {
+        return {
+          success: false,
+          message: `The snippet **${snippet.Name}** is not available for this ticket type.`,
+        };
+      }
+
+      const content = await this.renderSnippet(snippet.Content, ticket, staff);
+
+      if (ticket.Modmail) {
+        return this.replyToModmail(channelId, staff, content, [], false);
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      if (snippet.Embed) {
+        const embed = new EmbedBuilder()
+          .setDescription(content)
+          .setColor(0x3498db)
+          .setFooter({ text: "Eterna - Support Team" })
+          .setTimestamp();
+        if (snippet.Title) {
+          embed.setTitle(await this.renderSnippet(snippet.Title, ticket, staff));
+        }
+        await channel.send({ embeds: [embed] });
+      } else {
+        await channel.send({ content });
+      }
+
+      // Bot messages are skipped by the activity tracking, so record the reply here
+      if (!ticket.FirstResponseAt) {
+        await this.ticketRepository!.setFirstResponse(
+          ticket,
+          staff.id,
+          new Date()
+        );
+      }
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error sending ticket snippet:", error);
+      return {
+        success: false,
+        message: "An error occurred while sending the snippet.",
+      };
+    }
+  }
+
+  // Supported placeholders: {user}, {type}, {handler} and {staff}
+  private async renderSnippet(
+    text: string,
+    ticket: ITicket,
+    staff: User
+  ): Promise<string> {
+    const typeName =
+      this.categoryRepository?.get(ticket.Type)?.Name ?? ticket.Type;
+
+    let handlerName = "the support team";
+    if (ticket.HandledBy) {
+      const handler = await this.client.users
+        .fetch(ticket.HandledBy)
+        .catch(() => null);
+      handlerName = handler?.displayName ?? handlerName;
+    }
+
+    return text
+      .replaceAll("{user}", `<@${ticket.CreatedBy}>`)
+      .replaceAll("{type}", typeName)
+      .replaceAll("{handler}", handlerName)
+      .replaceAll("{staff}", staff.displayName);
+  }
+
+  // Used by /ticket search and its page buttons, page is zero based
+  public async createSearchPage(
+    searchId: string,
+    filters: TicketSearchFilters,
+    page: number
+  ) {
+    const { tickets, total } = await this.ticketRepository!.search(
+      filters,
+      page * SEARCH_PAGE_SIZE,
+      SEARCH_PAGE_SIZE
+    );
+    const pageCount = Math.max(Math.ceil(total / SEARCH_PAGE_SIZE), 1);
+
+    const lines = tickets.map((ticket) => {
+      const typeName = this.getCategory(ticket.Type)?.Name ?? ticket.Type;
+      const link = ticket.PurgedAt
+        ? ticket.TranscriptMessageId
+          ? `[transcript](${this.getTranscriptUrl(ticket.TranscriptMessageId)})`
+          : "channel deleted"
+        : `[jump](https://discord.com/channels/${config.guildId}/${ticket.ChannelId})`;
+      return (
+        `**${ticket.Subject ?? typeName}** · ${link}\n` +
+        `${typeName} · ${ticket.Status.toLowerCase()} · <@${ticket.CreatedBy}>` +
+        (ticket.HandledBy ? ` · handled by <@${ticket.HandledBy}>` : "") +
+        ` · <t:${Math.floor(ticket.CreatedAt.getTime() / 1000)}:d>`
+      );
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🔎 Ticket Search (${total})`)
+      .setDescription(
+        lines.length > 0
+          ? lines.join("\n\n").slice(0, 4096)
+          : "No tickets match these filters."
+      )
+      .setColor(0x3498db)
+      .setFooter({ text: `Page ${page + 1} of ${pageCount}` })
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`search_page_${searchId}_${page - 1}`)
+        .setLabel("Previous")
+        .setEmoji("◀️")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === 0),
+      new ButtonBuilder()
+        .setCustomId(`search_page_${searchId}_${page + 1}`)
+        .setLabel("Next")
+        .setEmoji("▶️")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page + 1 >= pageCount)
+    );
+
+    return { embeds: [embed], components: pageCount > 1 ? [row] : [] };
+  }
+
+  // Staff-only, notes are listed via the Notes button and only end up in the staff transcript
+  public async addNote(
+    channelId: string,
+    authorId: string,
+    content: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(
+        channelId,
+        true
+      );
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      await this.noteRepository!.create(ticket, authorId, content);
+      await this.ticketRepository!.recordAudit(ticket, "note_added", authorId);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error adding ticket note:", error);
+      return {
+        success: false,
+        message: "An error occurred while saving the note.",
+      };
+    }
+  }
+
+  public async createNotesEmbed(ticket: ITicket): Promise<EmbedBuilder> {
+    const notes = (await this.noteRepository?.findByTicketId(ticket.Id)) ?? [];
+
+    return new EmbedBuilder()
+      .setTitle(`📝 Staff Notes (${notes.length})`)
+      .setDescription(
+        notes.length === 0
+          ? "There are no notes for this ticket yet. Add one with `/ticket note`."
+          : notes
+              .map(
+                (note) =>
+                  `<t:${Math.floor(note.CreatedAt.getTime() / 1000)}:f> <@${
+                    note.AuthorId
+                  }>\n${note.Content}`
+              )
+              .join("\n\n")
+              .slice(0, 4096)
+      )
+      .setColor(0xf1c40f)
+      .setFooter({ text: "Only visible to staff" })
+      .setTimestamp();
+  }
+
+  public async renameTicket(
+    channelId: string,
+    name: string,
+    renamedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      const channelName = name
+        .toLowerCase()
+        .replace(/[^a-z0-9-]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 100);
+      if (!channelName) {
+        return { success: false, message: "Please provide a valid name." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      const previousName = channel.name;
+      await channel.setName(channelName);
+
+      const renamedByUser = await this.client.users.fetch(renamedBy);
+      const embed = new EmbedBuilder()
+        .setTitle("✏️ Ticket Renamed")
+        .setDescription(
+          `${renamedByUser} renamed this ticket from \`${previousName}\` to \`${channelName}\`.`
+        )
+        .setColor(0x3498db)
+        .setTimestamp();
+
+      await channel.send({ embeds: [embed] });
+      await this.logTicketAction("renamed", ticket, renamedByUser);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error renaming ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while renaming the ticket.",
+      };
+    }
+  }
+
+  // Moves an open ticket to another category with that category's channel, roles and name
+  public async changeTicketType(
+    channelId: string,
+    ticketType: TicketType,
+    changedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      const previous = this.getCategory(ticket.Type);
+      const target = this.getCategory(ticketType);
+      if (!target || !target.Active) {
+        return { success: false, message: "Ticket category not found." };
+      }
+
+      if (target.Id === ticket.Type) {
+        return {
+          success: false,
+          message: `This ticket already is a ${target.Name} ticket.`,
+        };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      // A thread cannot change its parent, so it may only move between categories sharing it
+      if (channel.isThread()) {
+        if (target.ThreadChannelId !== channel.parentId) {
+          return {
+            success: false,
+            message: `Thread tickets can only be moved to categories using <#${channel.parentId}>.`,
+          };
+        }
+      } else {
+        if (target.ThreadChannelId) {
+          return {
+            success: false,
+            message: `${target.Name} tickets are threads, channel tickets cannot be moved there.`,
+          };
+        }
+
+        const parent = channel.guild.channels.cache.get(
+          target.DiscordCategoryId
+        ) as CategoryChannel;
+        if (!parent) {
+          return {
+            success: false,
+            message: "The Discord category of this ticket type is missing.",
+          };
+        }
+
+        await channel.setParent(parent, { lockPermissions: false });
+        await channel.permissionOverwrites.set(
+          this.buildPermissionOverwrites(
+            channel.guild,
+            target.Id,
+            this.getChannelMembers(ticket)
+          )
+        );
+      }
+
+      await this.ticketRepository!.setType(ticket, target.Id);
+      await this.applyHandlerPermissions(
+        channel,
+        ticket,
+        null,
+        ticket.HandledBy ?? null
+      );
+      await channel.setName(
+        this.generateChannelName(ticket.CreatedBy, target.Id)
+      );
+
+      const previousName = previous?.Name ?? "Unknown";
+      await this.ticketRepository!.recordAudit(
+        ticket,
+        "type_changed",
+        changedBy,
+        { from: previous?.Id ?? null, to: target.Id }
+      );
+
+      const changedByUser = await this.client.users.fetch(changedBy);
+      const embed = new EmbedBuilder()
+        .setTitle("🔀 Ticket Type Changed")
+        .setDescription(
+          `${changedByUser} moved this ticket from **${previousName}** to **${target.Name}**.`
+        )
+        .setColor(0x3498db)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      await channel.send({
+        content: this.getSupportRoleIds(target.Id)
+          .map((roleId) => `<@&${roleId}>`)
+          .join(" "),
+        embeds: [embed],
+      });
+      await this.logTicketAction(
+        "type changed",
+        ticket,
+        changedByUser,
+        `${previousName} → ${target.Name}`
+      );
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error changing ticket type:", error);
+      return {
+        success: false,
+        message: "An error occurred while changing the ticket type.",
+      };
+    }
+  }
+
+  public async claimTicket(
+    channelId: string,
+    userId: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      if (ticket.HandledBy === userId) {
+        return { success: false, message: "You already handle this ticket." };
+      }
+
+      if (ticket.HandledBy) {
+        return {
+          success: false,
+          message: `This ticket is already claimed by <@${ticket.HandledBy}>. Ask them to transfer it.`,
+        };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      await this.changeHandler(ticket, channel, userId, userId);
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error claiming ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while claiming the ticket.",
+      };
+    }
+  }
+
+  public async unclaimTicket(
+    channelId: string,
+    unclaimedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      if (!ticket.HandledBy) {
+        return { success: false, message: "This ticket is not claimed." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      await this.changeHandler(ticket, channel, null, unclaimedBy);
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error unclaiming ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while unclaiming the ticket.",
+      };
+    }
+  }
+
+  public async transferTicket(
+    channelId: string,
+    toUserId: string,
+    transferredBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket || ticket.Closed) {
+        return {
+          success: false,
+          message: "Ticket not found or already closed.",
+        };
+      }
+
+      if (ticket.HandledBy === toUserId) {
+        return {
+          success: false,
+          message: "That user already handles this ticket.",
+        };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      const target = await channel.guild.members
+        .fetch(toUserId)
+        .catch(() => null);
+      if (!target || !this.isStaff(target, ticket.Type)) {
+        return {
+          success: false,
+          message: "Tickets can only be transferred to support staff.",
+        };
+      }
+
+      await this.changeHandler(ticket, channel, toUserId, transferredBy);
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error transferring ticket:", error);
+      return {
+        success: false,
+        message: "An error occurred while transferring the ticket.",
+      };
+    }
+  }
+
+  private async changeHandler(
+    ticket: ITicket,
+    channel: TicketChannel,
+    handlerId: string | null,
+    changedBy: string
+  ): Promise<void> {
+    const previousHandler = ticket.HandledBy ?? null;
+
+    await this.ticketRepository!.setHandler(ticket, handlerId);
+    await this.applyHandlerPermissions(
+      channel,
+      ticket,
+      previousHandler,
+      handlerId
+    );
+
+    const handler = handlerId ? await this.client.users.fetch(handlerId) : null;
+
+    // Channel edits are heavily rate limited, a stale topic is not worth failing over
+    if (!channel.isThread()) {
+      await channel
+        .setTopic(handler ? `Handled by ${handler.tag}` : "Unclaimed")
+        .catch((error) => {
+          this.logger.info("Error updating ticket topic:", error);
+        });
+    }
+
+    const changedByUser = await this.client.users.fetch(changedBy);
+    const action = !handlerId
+      ? "unclaimed"
+      : previousHandler
+      ? "transferred"
+      : "claimed";
+
+    const embed = new EmbedBuilder().setColor(0x3498db).setTimestamp();
+    if (action === "claimed") {
+      embed
+        .setTitle("🙋 Ticket Claimed")
+        .setDescription(`${changedByUser} is now handling this ticket.`);
+    } else if (action === "transferred") {
+      embed
+        .setTitle("🔁 Ticket Transferred")
+        .setDescription(
+          `${changedByUser} transferred this ticket from <@${previousHandler}> to <@${handlerId}>.`
+        );
+    } else {
+      embed
+        .setTitle("👋 Ticket Unclaimed")
+        .setDescription(
+          `${changedByUser} released this ticket, any staff member can claim it now.`
+        );
+    }
+
+    const components = handlerId
+      ? [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(`unclaim_ticket_${channel.id}`)
+              .setLabel("Unclaim")
+              .setEmoji("👋")
+              .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+              .setCustomId(`transfer_ticket_${channel.id}`)
+              .setLabel("Transfer")
+              .setEmoji("🔁")
+              .setStyle(ButtonStyle.Secondary)
+          ),
+        ]
+      : [];
+
+    await channel.send({ embeds: [embed], components });
+    await this.logTicketAction(action, ticket, changedByUser);
+  }
+
+  private async grantTicketAccess(
+    channel: TicketChannel,
+    userId: string
+  ): Promise<void> {
+    if (channel.isThread()) {
+      await channel.members.add(userId);
+    } else {
+      await channel.permissionOverwrites.create(userId, {
+        ViewChannel: true,
+        SendMessages: true,
+        ReadMessageHistory: true,
+        AttachFiles: true,
+      });
+    }
+  }
+
+  // With claimRestrictsSupport, only the handler of a claimed ticket may write in it
+  private async applyHandlerPermissions(
+    channel: TicketChannel,
+    ticket: ITicket,
+    previousHandler: string | null,
+    handlerId: string | null
+  ): Promise<void> {
+    // Threads have no overwrites, the handler only has to be a member
+    if (channel.isThread()) {
+      if (handlerId) await channel.members.add(handlerId);
+      return;
+    }
+
+    if (!config.ticket.settings.claimRestrictsSupport) return;
+
+    for (const roleId of this.getSupportRoleIds(ticket.Type)) {
+      await channel.permissionOverwrites.edit(roleId, {
+        SendMessages: handlerId ? false : true,
+      });
+    }
+
+    if (previousHandler && !ticket.Users.includes(previousHandler)) {
+      await channel.permissionOverwrites.delete(previousHandler);
+    }
+
+    if (handlerId) {
+      await channel.permissionOverwrites.edit(handlerId, {
+        ViewChannel: true,
+        SendMessages: true,
+        ReadMessageHistory: true,
+        AttachFiles: true,
+      });
+    }
+  }
+
+  // Waits for the global cooldown and the rate limit, null if it would take too long
+  private async acquireCreationSlot(): Promise<number | null> {
+    const { globalCreationCooldownSeconds, creationRateLimit } =
+      config.ticket.settings;
+    const windowMs = creationRateLimit.windowSeconds * 1000;
+    const cooldownMs = globalCreationCooldownSeconds * 1000;
+    const deadline =
+      Date.now() +
+      (creationRateLimit.queue ? creationRateLimit.maxQueueSeconds * 1000 : 0);
+
+    while (true) {
+      const now = Date.now();
+      const retainSince = now - Math.max(windowMs, cooldownMs);
+      while (recentCreations.length > 0 && recentCreations[0] <= retainSince) {
+        recentCreations.shift();
+      }
+
+      let waitMs = 0;
+
+      const lastCreation = recentCreations[recentCreations.length - 1];
+      if (lastCreation !== undefined && cooldownMs > 0) {
+        waitMs = lastCreation + cooldownMs - now;
+      }
+
+      const inWindow = recentCreations.filter((at) => at > now - windowMs);
+      if (
+        creationRateLimit.maxTickets > 0 &&
+        inWindow.length >= creationRateLimit.maxTickets
+      ) {
+        const oldest =
+          inWindow[inWindow.length - creationRateLimit.maxTickets];
+        waitMs = Math.max(waitMs, oldest + windowMs - now);
+      }
+
+      if (waitMs <= 0) {
+        // Reserved right away so concurrent creations cannot take the same slot
+        recentCreations.push(now);
+        return now;
+      }
+
+      if (now + waitMs > deadline) {
+        this.logger.warn("Ticket creation rejected by the rate limit");
+        return null;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // Gives back a slot whose creation was rejected after all
+  private releaseCreationSlot(reservedAt: number): void {
+    const index = recentCreations.lastIndexOf(reservedAt);
+    if (index > -1) {
+      recentCreations.splice(index, 1);
+    }
+  }
+
+  // A failed assignment leaves the ticket unclaimed instead of failing the creation
+  private async autoAssign(
+    channel: TicketChannel,
+    ticket: ITicket,
+    guild: Guild
+  ): Promise<GuildMember | null> {
+    if (config.ticket.settings.autoAssignment.mode === "off") return null;
+
+    try {
+      const candidates = await this.getAssignmentCandidates(guild, ticket);
+      const assignee = this.pickAssignee(candidates, ticket.Type);
+      if (!assignee) {
+        this.logger.info(
+          `No staff available to auto-assign ticket ${ticket.Id}`
+        );
+        return null;
+      }
+
+      lastAssignees.set(ticket.Type, assignee.id);
+      await this.ticketRepository!.setHandler(ticket, assignee.id);
+      await this.applyHandlerPermissions(channel, ticket, null, assignee.id);
+
+      if (!channel.isThread()) {
+        await channel
+          .setTopic(`Handled by ${assignee.user.tag}`)
+          .catch((error) => {
+            this.logger.info("Error updating ticket topic:", error);
+          });
+      }
+
+      await this.ticketRepository!.recordAudit(
+        ticket,
+        "auto_assigned",
+        this.client.user!.id,
+        { handlerId: assignee.id }
+      );
+
+      return assignee;
+    } catch (error) {
+      this.logger.info("Error auto-assigning ticket:", error);
+      return null;
+    }
+  }
+
+  // Members of the category's support roles, sorted by id for a stable rotation
+  private async getAssignmentCandidates(
+    guild: Guild,
+    ticket: ITicket
+  ): Promise<GuildMember[]> {
+    const { skipOffline, skipOffDuty } = config.ticket.settings.autoAssignment;
+
+    // Role member lists only cover cached members
+    if (guild.members.cache.size < guild.memberCount) {
+      await guild.members.fetch({ withPresences: skipOffline });
+    }
+
+    const roleIds = this.getSupportRoleIds(ticket.Type);
+    let candidates = guild.members.cache.filter(
+      (member) =>
+        !member.user.bot &&
+        member.id !== ticket.CreatedBy &&
+        roleIds.some((roleId) => member.roles.cache.has(roleId))
+    );
+
+    if (skipOffline) {
+      candidates = candidates.filter(
+        (member) => (member.presence?.status ?? "offline") !== "offline"
+      );
+    }
+
+    if (skipOffDuty && candidates.size > 0) {
+      const offDuty = await this.staffRepository!.findOffDuty([
+        ...candidates.keys(),
+      ]);
+      candidates = candidates.filter((member) => !offDuty.has(member.id));
+    }
+
+    return [...candidates.values()].sort((a, b) =>
+      a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+    );
+  }
+
+  // least_open narrows the rotation down to whoever handles the fewest open tickets
+  private pickAssignee(
+    candidates: GuildMember[],
+    ticketType: TicketType
+  ): GuildMember | null {
+    let pool = candidates;
+
+    if (
+      config.ticket.settings.autoAssignment.mode === "least_open" &&
+      this.ticketCache
+    ) {
+      const openCounts = new Map(
+        candidates.map((member) => [
+          member.id,
+          this.ticketCache!.getTicketsByHandler(member.id).filter(
+            (ticket) => !ticket.Closed
+          ).length,
+        ])
+      );
+      const fewest = Math.min(...openCounts.values());
+      pool = candidates.filter((member) => openCounts.get(member.id) === fewest);
+    }
+
+    if (pool.length === 0) return null;
+
+    const last = lastAssignees.get(ticketType);
+    return (last && pool.find((member) => member.id > last)) || pool[0];
+  }
+
+  private async changeOpenStatus(
+    channelId: string,
+    status: "OPEN" | "PENDING",
+    changedBy: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      if (!ticket) {
+        return { success: false, message: "Ticket not found." };
+      }
+
+      const transitionError = this.checkTransition(ticket, status);
+      if (transitionError) {
+        return { success: false, message: transitionError };
+      }
+
+      if (status === "OPEN" && ticket.Status !== "PENDING") {
+        return { success: false, message: "Ticket is not pending." };
+      }
+
+      const channel = this.client.channels.cache.get(channelId) as TicketChannel;
+      if (!channel) {
+        return { success: false, message: "Channel not found." };
+      }
+
+      const previousStatus = ticket.Status;
+      await this.ticketRepository!.setStatus(ticket, status);
+      await this.auditTransition(ticket, previousStatus, changedBy);
+
+      const changedByUser = await this.client.users.fetch(changedBy);
+      const embed = new EmbedBuilder().setTimestamp();
+      const components: ActionRowBuilder<ButtonBuilder>[] = [];
+
+      if (status === "PENDING") {
+        embed
+          .setTitle("⏳ Ticket Pending")
+          .setDescription(
+            `${changedByUser} marked this ticket as waiting for a reply from <@${ticket.CreatedBy}>.`
+          )
+          .setColor(0xf1c40f);
+        components.push(
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(`resume_ticket_${channel.id}`)
+              .setLabel("Resume")
+              .setEmoji("▶️")
+              .setStyle(ButtonStyle.Primary)
+          )
+        );
+      } else {
+        embed
+          .setTitle("▶️ Ticket Resumed")
+          .setDescription(`${changedByUser} resumed this ticket.`)
+          .setColor(0x3498db);
+      }
 
-  private async logTicketAction(
-    action: string,
+      await channel.send({ embeds: [embed], components });
+      await this.logTicketAction(
+        status === "PENDING" ? "pending" : "resumed",
+        ticket,
+        changedByUser
+      );
+
+      return { success: true };
+    } catch (error) {
+      this.logger.info("Error changing ticket status:", error);
+      return {
+        success: false,
+        message: "An error occurred while changing the ticket status.",
+      };
+    }
+  }
+
+  // Returns why the ticket cannot move to the given status, or null if it can
+  private checkTransition(ticket: ITicket, to: TicketStatus): string | null {
+    if (ticket.Status === to) {
+      return `Ticket is already ${to.toLowerCase()}.`;
+    }
+
+    if (!STATUS_TRANSITIONS[ticket.Status].includes(to)) {
+      return `A ${ticket.Status.toLowerCase()} ticket cannot be changed to ${to.toLowerCase()}.`;
+    }
+
+    return null;
+  }
+
+  private async auditTransition(
+    ticket: ITicket,
+    from: TicketStatus,
+    changedBy: string,
+    reason?: string
+  ): Promise<void> {
+    try {
+      await this.ticketRepository?.recordAudit(
+        ticket,
+        "status_changed",
+        changedBy,
+        { from, to: ticket.Status, reason: reason ?? null }
+      );
+    } catch (error) {
+      // The transition already happened, a missing audit row must not undo it
+      this.logger.info("Error recording ticket audit entry:", error);
+    }
+  }
+
+  // The timer only lives in memory, resumeScheduledArchives picks it up again after a restart
+  private scheduleArchive(ticket: ITicket, channel: TicketChannel): void {
+    this.cancelScheduledArchive(channel.id);
+
+    const delay = Math.max(
+      (ticket.ArchiveAt?.getTime() ?? 0) - Date.now(),
+      0
+    );
+    const timer = setTimeout(async () => {
+      scheduledArchives.delete(channel.id);
+      if (ticket.Status !== "CLOSED") return;
+
+      await this.archiveTicket(
+        ticket,
+        channel,
+        ticket.ClosedBy ?? this.client.user!.id
+      );
+    }, delay);
+
+    scheduledArchives.set(channel.id, timer);
+  }
+
+  private cancelScheduledArchive(channelId: string): void {
+    const timer = scheduledArchives.get(channelId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    scheduledArchives.delete(channelId);
+  }
+
+  // Private threads have no overwrites, mentioning the support roles adds their members instead
+  private async createTicketThread(
+    guild: Guild,
+    category: ITicketCategory,
+    name: string,
+    userIds: string[]
+  ): Promise<AnyThreadChannel> {
+    const parent = guild.channels.cache.get(
+      category.ThreadChannelId!
+    ) as TextChannel;
+
+    const thread = await parent.threads.create({
+      name,
+      type: ChannelType.PrivateThread,
+      invitable: false,
+      autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
+    });
+
+    for (const userId of userIds) {
+      await thread.members.add(userId);
+    }
+
+    await thread.send({
+      content: this.getSupportRoleIds(category.Id)
+        .map((roleId) => `<@&${roleId}>`)
+        .join(" "),
+      allowedMentions: { roles: this.getSupportRoleIds(category.Id) },
+    });
+
+    return thread;
+  }
+
+  // Thread tickets are not always cached, archived ones have to be fetched
+  private async fetchTicketChannel(
+    channelId: string
+  ): Promise<TicketChannel | null> {
+    const channel =
+      this.client.channels.cache.get(channelId) ??
+      (await this.client.channels.fetch(channelId).catch(() => null));
+
+    return channel &&
+      (channel.type === ChannelType.GuildText || channel.isThread())
+      ? (channel as TicketChannel)
+      : null;
+  }
+
+  // Users that get access to the channel, modmail creators only talk through DMs
+  private getChannelMembers(ticket: ITicket): string[] {
+    return ticket.Modmail
+      ? ticket.Users.filter((userId) => userId !== ticket.CreatedBy)
+      : ticket.Users;
+  }
+
+  private buildPermissionOverwrites(
+    guild: Guild,
+    ticketType: TicketType,
+    userIds: string[]
+  ): OverwriteResolvable[] {
+    return [
+      {
+        id: guild.roles.everyone.id,
+        type: OverwriteType.Role,
+        deny: [PermissionFlagsBits.ViewChannel],
+      },
+      ...userIds.map((userId) => ({
+        id: userId,
+        type: OverwriteType.Member,
+        allow: [
+          PermissionFlagsBits.ViewChannel,
+          PermissionFlagsBits.SendMessages,
+          PermissionFlagsBits.ReadMessageHistory,
+          PermissionFlagsBits.AttachFiles,
+        ],
+      })),
+      ...this.getSupportRoleIds(ticketType).map((roleId) => ({
+        id: roleId,
+        type: OverwriteType.Role,
+        allow: [
+          PermissionFlagsBits.ViewChannel,
+          PermissionFlagsBits.SendMessages,
+          PermissionFlagsBits.ReadMessageHistory,
+          PermissionFlagsBits.AttachFiles,
+          PermissionFlagsBits.ManageMessages,
+        ],
+      })),
+      ...config.ticket.permissions.allowedRoles.map((roleId) => ({
+        id: roleId,
+        type: OverwriteType.Role,
+        allow: [
+          PermissionFlagsBits.ViewChannel,
+          PermissionFlagsBits.SendMessages,
+          PermissionFlagsBits.ReadMessageHistory,
+          PermissionFlagsBits.AttachFiles,
+        ],
+      })),
+    ];
+  }
+
+  private generateChannelName(userId: string, ticketType: TicketType): string {
+    const pattern = config.ticket.settings.ticketNamingPattern;
+    const typeName = (this.getCategory(ticketType)?.Name ?? ticketType)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+
+    return pattern
+      .replace("{username}", `user-${userId.slice(-4)}`)
+      .replace("{ticketType}", typeName)
+      .toLowerCase();
+  }
+
+  private async sendTicketOpenMessage(
+    channel: TicketChannel,
     ticket: ITicket,
     user: User,
+    assignee: GuildMember | null = null
+  ): Promise<void> {
+    const category = this.getCategory(ticket.Type);
+    const typeName = category?.Name ?? ticket.Type;
+    const defaultMessage =
+      category?.DefaultMessage ?? "Please describe your request.";
+
+    // An assigned ticket pings its handler instead of the whole alert role
+    const greeting = assignee
+      ? `Thank you for opening a **${typeName}** ticket. ${assignee} has been assigned and will be with you shortly.`
+      : `Thank you for opening a **${typeName}** ticket. A member of our support team will be with you shortly.`;
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🧾 ${typeName} Ticket Opened`)
+      .setDescription(
+        `Hello ${user},\n\n` +
+          `${greeting}\n\n` +
+          `${defaultMessage}\n\n` +
+          (assignee
+            ? `${assignee}`
+            : `<@&${config.ticket.permissions.alertRoleId}>`)
+      )
+      .setColor(
+        category?.Color ? parseInt(category.Color.replace("#", ""), 16) : 0x2ecc71
+      )
+      .setFooter({ text: "Eterna - Support Team" })
+      .setTimestamp();
+
+    await channel.send({
+      embeds: [embed],
+      components: this.createTicketControls(channel.id),
+    });
+  }
+
+  private async sendIntakeAnswers(
+    channel: TicketChannel,
+    ticket: ITicket,
+    answers: ITicketIntakeAnswer[]
+  ): Promise<void> {
+    const category = this.getCategory(ticket.Type);
+
+    const embed = new EmbedBuilder()
+      .setTitle("📋 Ticket Details")
+      .setDescription(`Submitted by <@${ticket.CreatedBy}>`)
+      .addFields(
+        answers.map((entry) => ({
+          name: entry.Question,
+          value: entry.Answer ? entry.Answer.slice(0, 1024) : "*No answer*",
+        }))
+      )
+      .setColor(
+        category?.Color ? parseInt(category.Color.replace("#", ""), 16) : 0x3498db
+      )
+      .setFooter({ text: "Eterna - Support Team" })
+      .setTimestamp();
+
+    await channel.send({ embeds: [embed] });
+  }
+
+  private createTicketControls(
+    channelId: string
+  ): ActionRowBuilder<ButtonBuilder>[] {
+    const actions = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`close_ticket_${channelId}`)
+        .setLabel("Close Ticket")
+        .setEmoji("🔒")
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`add_user_${channelId}`)
+        .setLabel("Add User")
+        .setEmoji("➕")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(`remove_user_${channelId}`)
+        .setLabel("Remove User")
+        .setEmoji("➖")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(`claim_ticket_${channelId}`)
+        .setLabel("Claim")
+        .setEmoji("🙋")
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`pending_ticket_${channelId}`)
+        .setLabel("Mark Pending")
+        .setEmoji("⏳")
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    // A row holds at most five buttons
+    const staff = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`view_notes_${channelId}`)
+        .setLabel("Notes")
+        .setEmoji("📝")
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    return [actions, staff];
+  }
+
+  private async archiveTicket(
+    ticket: ITicket,
+    channel: TicketChannel,
+    archivedBy: string
+  ): Promise<boolean> {
+    // The scheduled archive and "Archive Now" may race each other
+    if (archivingChannels.has(channel.id)) return false;
+    archivingChannels.add(channel.id);
+
+    try {
+      // The transcript has to be generated before the channel is moved or deleted
+      const closedByUser = await this.client.users.fetch(
+        ticket.ClosedBy ?? archivedBy
+      );
+      await this.sendTranscript(
+        ticket,
+        channel,
+        closedByUser,
+        ticket.CloseReason
+      );
+
+      const archiveCategoryIds = this.getArchiveCategoryIds();
+      let deleted = false;
+
+      if (channel.isThread()) {
+        // Sending into an archived thread would unarchive it again
+        await channel.send(this.createArchivedMessage(channel.id));
+
+        // Staff with Manage Threads can still read the locked thread
+        for (const userId of ticket.Users) {
+          await channel.members.remove(userId).catch(() => null);
+        }
+        await channel.setName(`archived-${channel.name}`);
+        await channel.setLocked(true);
+        await channel.setArchived(true);
+      } else if (archiveCategoryIds.length > 0) {
+        const archiveCategory = this.findArchiveCategory(channel.guild);
+
+        // With every archive category full the channel stays where it is
+        if (archiveCategory) {
+          await channel.setParent(archiveCategory);
+        } else {
+          this.logger.warn(
+            `All archive categories are full, ticket ${ticket.Id} stays in place`
+          );
+        }
+        await channel.setName(`archived-${channel.name}`);
+
+        // Remove all user permissions except support staff
+        const supportRoleIds = this.getSupportRoleIds(ticket.Type);
+        const permissionOverwrites = channel.permissionOverwrites.cache;
+        for (const [id] of permissionOverwrites) {
+          if (
+            id !== channel.guild.roles.everyone.id &&
+            !supportRoleIds.includes(id) &&
+            !config.ticket.permissions.allowedRoles.includes(id)
+          ) {
+            await channel.permissionOverwrites.delete(id);
+          }
+        }
+      } else {
+        // If no archive category, delete the channel
+        await channel.delete();
+        deleted = true;
+      }
+
+      await this.ticketRepository?.archive(ticket);
+      await this.auditTransition(ticket, "CLOSED", archivedBy);
+
+      const archivedByUser = await this.client.users.fetch(archivedBy);
+      await this.logTicketAction("archived", ticket, archivedByUser);
+
+      if (!deleted && !channel.isThread()) {
+        await channel.send(this.createArchivedMessage(channel.id));
+        await this.warnArchiveCapacity(channel.guild);
+      }
+
+      await this.notifyCreatorArchived(ticket);
+      if (ticket.MergedInto) {
+        await this.linkMergedTranscript(ticket);
+      }
+
+      return true;
+    } catch (error) {
+      this.logger.info("Error archiving ticket:", error);
+      return false;
+    } finally {
+      archivingChannels.delete(channel.id);
+    }
+  }
+
+  private getArchiveCategoryIds(): string[] {
+    const { ticketArchiveCategoryId, overflowArchiveCategoryIds } =
+      config.ticket.channelConfig;
+    return [ticketArchiveCategoryId, ...overflowArchiveCategoryIds].filter(
+      Boolean
+    );
+  }
+
+  // First archive category with room left, overflow categories in config order
+  private findArchiveCategory(guild: Guild): CategoryChannel | null {
+    for (const id of this.getArchiveCategoryIds()) {
+      const category = guild.channels.cache.get(id);
+      if (
+        category?.type === ChannelType.GuildCategory &&
+        category.children.cache.size < CATEGORY_CHANNEL_LIMIT
+      ) {
+        return category;
+      }
+    }
+    return null;
+  }
+
+  private createArchivedMessage(channelId: string) {
+    const embed = new EmbedBuilder()
+      .setTitle("🗄️ Ticket Archived")
+      .setDescription("This ticket has been archived.")
+      .setColor(0x95a5a6)
+      .setFooter({ text: "Eterna - Support Team" })
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`reopen_ticket_${channelId}`)
+        .setLabel("Reopen")
+        .setEmoji("🔓")
+        .setStyle(ButtonStyle.Success)
+    );
+
+    return { embeds: [embed], components: [row] };
+  }
+
+  // Posted to the log channel at most once an hour while the archive is nearly full
+  private async warnArchiveCapacity(guild: Guild): Promise<void> {
+    const { capacityWarningThreshold } = config.ticket.settings.archiveRetention;
+    if (Date.now() - lastCapacityWarningAt < CAPACITY_WARNING_INTERVAL_MS) {
+      return;
+    }
+
+    const usage = this.getArchiveCategoryIds().map((id) => {
+      const category = guild.channels.cache.get(id);
+      return {
+        id,
+        used:
+          category?.type === ChannelType.GuildCategory
+            ? category.children.cache.size
+            : CATEGORY_CHANNEL_LIMIT,
+      };
+    });
+    const free = usage.reduce(
+      (total, entry) =>
+        total + Math.max(CATEGORY_CHANNEL_LIMIT - entry.used, 0),
+      0
+    );
+    if (free > capacityWarningThreshold) return;
+
+    const logChannel = this.client.channels.cache.get(
+      config.ticket.channelConfig.logChannelId
+    ) as TextChannel;
+    if (!logChannel) return;
+
+    lastCapacityWarningAt = Date.now();
+
+    const embed = new EmbedBuilder()
+      .setTitle("⚠️ Ticket Archive Nearly Full")
+      .setDescription(
+        `Only **${free}** archive slots are left. Add a category to \`overflowArchiveCategoryIds\` ` +
+          "or lower the archive retention, otherwise archived tickets stay in their ticket category."
+      )
+      .addFields(
+        usage.map((entry) => ({
+          name: "Category",
+          value: `<#${entry.id}>: ${entry.used}/${CATEGORY_CHANNEL_LIMIT}`,
+          inline: true,
+        }))
+      )
+      .setColor(0xe67e22)
+      .setTimestamp();
+
+    await logChannel.send({ embeds: [embed] }).catch((error) => {
+      this.logger.info("Error sending archive capacity warning:", error);
+    });
+  }
+
+  // The merge summary is posted before the source is archived, so its transcript follows separately
+  private async linkMergedTranscript(source: ITicket): Promise<void> {
+    try {
+      const target = await this.ticketRepository?.findById(source.MergedInto!);
+      const targetChannel = target
+        ? (this.client.channels.cache.get(target.ChannelId) as
+            | TicketChannel
+            | undefined)
+        : undefined;
+      if (!targetChannel) return;
+
+      const typeName = this.getCategory(source.Type)?.Name ?? source.Type;
+      await targetChannel.send({
+        embeds: [
+          new EmbedBuilder()
+            .setTitle("📄 Merged Ticket Transcript")
+            .setDescription(
+              source.TranscriptMessageId
+                ? `The transcript of the merged **${typeName}** ticket of <@${source.CreatedBy}> is ready: ` +
+                    `[View transcript](${this.getTranscriptUrl(source.TranscriptMessageId)})`
+                : `No transcript could be stored for the merged **${typeName}** ticket of <@${source.CreatedBy}>.`
+            )
+            .setColor(0x9b59b6)
+            .setFooter({ text: "Eterna - Support Team" }),
+        ],
+      });
+    } catch (error) {
+      this.logger.info("Error linking merged ticket transcript:", error);
+    }
+  }
+
+  private getTranscriptUrl(messageId: string): string {
+    return `https://discord.com/channels/${config.guildId}/${config.ticket.channelConfig.logChannelId}/${messageId}`;
+  }
+
+  private async notifyCreatorArchived(ticket: ITicket): Promise<void> {
+    if (ticket.Modmail) {
+      await this.notifyModmailClosed(ticket, ticket.CloseReason);
+    }
+    await this.sendSurvey(ticket);
+  }
+
+  // Logs the close together with the transcript and optionally DMs it to the creator
+  private async sendTranscript(
+    ticket: ITicket,
+    channel: TicketChannel,
+    closedByUser: User,
+    reason?: string
+  ): Promise<void> {
+    const typeName = this.getCategory(ticket.Type)?.Name ?? ticket.Type;
+
+    let transcript: TicketTranscriptResult | null = null;
+    try {
+      const notes =
+        (await this.noteRepository?.findByTicketId(ticket.Id)) ?? [];
+      const messages = await this.transcriptGenerator.fetchMessages(channel);
+      // Copied first so the transcript can point at the local files instead of the expiring CDN links
+      const archivedAttachments = await this.attachmentStore.archive(
+        ticket,
+        messages
+      );
+      transcript = this.transcriptGenerator.generate(
+        channel,
+        ticket,
+        typeName,
+        messages,
+        archivedAttachments,
+        notes
+      );
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error generating transcript:", err);
+    }
+
+    const logMessage = await this.logTicketAction(
+      "closed",
+      ticket,
+      closedByUser,
+      reason,
+      transcript ? [transcript.html, transcript.text, transcript.json] : []
+    );
+
+    if (!transcript) return;
+
+    if (logMessage) {
+      await this.ticketRepository
+        ?.setTranscriptMessage(ticket, logMessage.id)
+        .catch((error) => {
+          this.logger.info("Error storing transcript reference:", error);
+        });
+    }
+
+    if (!config.ticket.settings.dmTranscriptToCreator) return;
+
+    try {
+      const creator = await this.client.users.fetch(ticket.CreatedBy);
+      await creator.send({
+        content:
+          `📄 Your **${typeName}** ticket has been closed.` +
+          (reason ? `\n**Reason:** ${reason}` : "") +
+          `\n\nHere is a transcript of the conversation.`,
+        files: [transcript.publicHtml, transcript.publicText],
+      });
+    } catch (error) {
+      // Users with closed DMs are expected, the transcript is still logged
+      this.logger.info(
+        `Could not DM transcript to ${ticket.CreatedBy}:`,
+        error
+      );
+    }
+  }
+
+  private async notifyModmailClosed(
+    ticket: ITicket,
     reason?: string
   ): Promise<void> {
+    try {
+      const typeName = this.getCategory(ticket.Type)?.Name ?? ticket.Type;
+      const creator = await this.client.users.fetch(ticket.CreatedBy);
+
+      const embed = new EmbedBuilder()
+        .setTitle("🔒 Ticket Closed")
+        .setDescription(
+          `Your **${typeName}** ticket has been closed. ` +
+            "Send another message here if you need more help."
+        )
+        .addFields({ name: "Reason", value: reason || "No reason provided" })
+        .setColor(0xe74c3c)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      await creator.send({ embeds: [embed] });
+    } catch (error) {
+      this.logger.info(
+        `Could not notify ${ticket.CreatedBy} about the closed ticket:`,
+        error
+      );
+    }
+  }
+
+  // Asks the creator to rate the ticket, unless they turned off notifications
+  private async sendSurvey(ticket: ITicket): Promise<void> {
+    if (!this.feedbackRepository) return;
+
+    try {
+      const notifications =
+        await this.feedbackRepository.hasNotificationsEnabled(
+          ticket.CreatedBy
+        );
+      if (!notifications) return;
+
+      const typeName = this.getCategory(ticket.Type)?.Name ?? ticket.Type;
+      const creator = await this.client.users.fetch(ticket.CreatedBy);
+
+      const embed = new EmbedBuilder()
+        .setTitle("⭐ How did we do?")
+        .setDescription(
+          `Your **${typeName}** ticket has been closed. ` +
+            `Please rate the support you received, it only takes a second.`
+        )
+        .setColor(0xf1c40f)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        [1, 2, 3, 4, 5].map((rating) =>
+          new ButtonBuilder()
+            .setCustomId(`rate_ticket_${ticket.Id}_${rating}`)
+            .setLabel(String(rating))
+            .setEmoji("⭐")
+            .setStyle(ButtonStyle.Secondary)
+        )
+      );
+
+      await creator.send({ embeds: [embed], components: [row] });
+    } catch (error) {
+      // Users with closed DMs are expected, the survey is optional
+      this.logger.info(`Could not send survey to ${ticket.CreatedBy}:`, error);
+    }
+  }
+
+  private async logTicketAction(
+    action: string,
+    ticket: ITicket,
+    user: User,
+    reason?: string,
+    files: AttachmentBuilder[] = []
+  ): Promise<Message | null> {
     try {
       const logChannel = this.client.channels.cache.get(
         config.ticket.channelConfig.logChannelId
       ) as TextChannel;
 
-      if (!logChannel) return;
+      if (!logChannel) return null;
 
-      const ticketTypeConfig = config.ticket.ticketTypes[ticket.Type];
+      const typeName = this.getCategory(ticket.Type)?.Name ?? ticket.Type;
 
       const embed = new EmbedBuilder()
         .setTitle(
           `🎫 Ticket ${action.charAt(0).toUpperCase() + action.slice(1)}`
         )
         .addFields(
-          { name: "Ticket Type", value: ticketTypeConfig.name, inline: true },
+          { name: "Ticket Type", value: typeName, inline: true },
           { name: "Channel", value: `<#${ticket.ChannelId}>`, inline: true },
           { name: "User", value: `${user} (${user.id})`, inline: true },
           { name: "Created By", value: `<@${ticket.CreatedBy}>`, inline: true },
@@ -436,6 +2728,14 @@ export class TicketHandler {
         embed.addFields({ name: "Reason", value: reason, inline: false });
       }
 
+      if (ticket.HandledBy) {
+        embed.addFields({
+          name: "Handler",
+          value: `<@${ticket.HandledBy}>`,
+          inline: true,
+        });
+      }
+
       if (ticket.ClosedAt) {
         embed.addFields({
           name: "Closed At",
@@ -444,9 +2744,10 @@ export class TicketHandler {
         });
       }
 
-      await logChannel.send({ embeds: [embed] });
+      return await logChannel.send({ embeds: [embed], files });
     } catch (error) {
       this.logger.info("Error logging ticket action:", error);
+      return null;
     }
   }
 }
@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PrismaClient,
+  TicketMenu as TicketMenuRecord,
+} from "../../../prisma/generated/prisma";
+import type { ITicketMenu } from "../../config";
+
+export type TicketMenuInput = Omit<ITicketMenu, "Id">;
+
+export class TicketMenuRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  public async findAll(): Promise<ITicketMenu[]> {
+    const records = await this.prisma.ticketMenu.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+    return records.map((record) => this.toMenu(record));
+  }
+
+  // Accepts either the menu id or the id of the posted message
+  public async resolve(query: string): Promise<ITicketMenu | null> {
+    const record = await this.prisma.ticketMenu.findFirst({
+      where: { OR: [{ id: query.trim() }, { messageId: query.trim() }] },
+    });
+    return record ? this.toMenu(record) : null;
+  }
+
+  public async create(input: TicketMenuInput): Promise<ITicketMenu> {
+    const record = await this.prisma.ticketMenu.create({
+      data: {
+        id: randomUUID(),
+        ...this.toRecordData(input),
+        channelId: input.ChannelId,
+        messageId: input.MessageId,
+        updatedAt: new Date(),
+      },
+    });
+    return this.toMenu(record);
+  }
+
+  public async update(
+    id: string,
+    changes: Partial<TicketMenuInput>
+  ): Promise<ITicketMenu> {
+    const record = await this.prisma.ticketMenu.update({
+      where: { id },
+      data: {
+        ...this.toRecordData(changes),
+        updatedAt: new Date(),
+      },
+    });
+    return this.toMenu(record);
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.prisma.ticketMenu.delete({ where: { id } });
+  }
+
+  private toRecordData(input: Partial<TicketMenuInput>) {
+    return {
+      channelId: input.ChannelId,
+      messageId: input.MessageId,
+      title: input.Title,
+      description: input.Description,
+      categoryIds: input.CategoryIds,
+      style: input.Style,
+    };
+  }
+
+  private toMenu(record: TicketMenuRecord): ITicketMenu {
+    return {
+      Id: record.id,
+      ChannelId: record.channelId,
+      MessageId: record.messageId,
+      Title: record.title,
+      Description: record.description,
+      CategoryIds: [...record.categoryIds],
+      Style: record.style,
+    };
+  }
+}
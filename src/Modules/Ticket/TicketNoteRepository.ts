@@ -0,0 +1,49 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PrismaClient,
+  TicketNote as TicketNoteRecord,
+} from "../../../prisma/generated/prisma";
+import type { ITicket, ITicketNote } from "../../config";
+
+export class TicketNoteRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  public async findByTicketId(ticketId: string): Promise<ITicketNote[]> {
+    const records = await this.prisma.ticketNote.findMany({
+      where: { ticketId },
+      orderBy: { createdAt: "asc" },
+    });
+    return records.map((record) => this.toNote(record));
+  }
+
+  public async create(
+    ticket: ITicket,
+    authorId: string,
+    content: string
+  ): Promise<ITicketNote> {
+    const record = await this.prisma.ticketNote.create({
+      data: {
+        id: randomUUID(),
+        ticketId: ticket.Id,
+        authorId,
+        content,
+        updatedAt: new Date(),
+      },
+    });
+    return this.toNote(record);
+  }
+
+  private toNote(record: TicketNoteRecord): ITicketNote {
+    return {
+      Id: record.id,
+      TicketId: record.ticketId,
+      AuthorId: record.authorId,
+      Content: record.content,
+      CreatedAt: record.createdAt,
+    };
+  }
+}
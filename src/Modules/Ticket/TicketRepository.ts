@@ -0,0 +1,558 @@
+import { randomUUID } from "node:crypto";
+import {
+  LogType,
+  TicketStatus,
+  type Prisma,
+  type PrismaClient,
+  type Ticket as TicketRecord,
+} from "../../../prisma/generated/prisma";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import type { TicketCache } from "./TicketCache";
+import type {
+  ITicket,
+  TicketStatus as TicketStatusName,
+  TicketType,
+} from "../../config";
+
+export type NewTicket = Omit<ITicket, "Id">;
+
+// The columns SLA statistics are computed from
+export interface TicketSlaRecord {
+  Type: TicketType;
+  CreatedAt: Date;
+  FirstResponseAt: Date | null;
+  ClosedAt: Date | null;
+  SlaBreachedAt: Date | null;
+}
+
+// Every filter is optional, the given ones all have to match
+export interface TicketSearchFilters {
+  UserId?: string;
+  Type?: TicketType;
+  HandlerId?: string;
+  Status?: TicketStatusName;
+  IsOpen?: boolean;
+  CloseReason?: string;
+  // Matched against the subject, the intake answers and the stored messages
+  Text?: string;
+  CreatedAfter?: Date;
+  CreatedBefore?: Date;
+}
+
+export class TicketRepository {
+  private logger: Logger = LoggerFactory.create("TicketRepository");
+  private readonly prisma: PrismaClient;
+  private readonly ticketCache: TicketCache;
+
+  constructor(prisma: PrismaClient, ticketCache: TicketCache) {
+    this.prisma = prisma;
+    this.ticketCache = ticketCache;
+  }
+
+  // Fills the cache with every ticket that has not been archived yet
+  public async warmCache(): Promise<number> {
+    const records = await this.prisma.ticket.findMany({
+      where: { status: { not: TicketStatus.ARCHIVED } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    this.ticketCache.clear();
+    for (const record of records) {
+      this.ticketCache.addTicket(this.toTicket(record));
+    }
+
+    return records.length;
+  }
+
+  public async create(ticket: NewTicket): Promise<ITicket> {
+    const now = new Date();
+
+    const record = await this.prisma.ticket.create({
+      data: {
+        id: randomUUID(),
+        channelId: ticket.ChannelId,
+        subject: ticket.Subject ?? null,
+        reason: ticket.Reason ?? null,
+        status: ticket.Status,
+        createdAt: ticket.CreatedAt,
+        updatedAt: now,
+        closedAt: ticket.ClosedAt,
+        closeReason: ticket.CloseReason ?? null,
+        participantIds: ticket.Users,
+        modmail: ticket.Modmail ?? false,
+        TicketCategory: { connect: { id: ticket.Type } },
+        User_Ticket_creatorIdToUser: this.connectUser(ticket.CreatedBy),
+        User_Ticket_closedByIdToUser: ticket.ClosedBy
+          ? this.connectUser(ticket.ClosedBy)
+          : undefined,
+      },
+    });
+
+    const created = this.toTicket(record);
+    this.ticketCache.addTicket(created);
+    return created;
+  }
+
+  public async findById(id: string): Promise<ITicket | null> {
+    const record = await this.prisma.ticket.findUnique({ where: { id } });
+    if (!record) return null;
+
+    return (
+      this.ticketCache.getTicket(record.channelId) ?? this.toTicket(record)
+    );
+  }
+
+  // Archived tickets are only returned on request and are never cached
+  public async findByChannelId(
+    channelId: string,
+    includeArchived = false
+  ): Promise<ITicket | null> {
+    const cached = this.ticketCache.getTicket(channelId);
+    if (cached) return cached;
+
+    const record = await this.prisma.ticket.findFirst({
+      where: includeArchived
+        ? { channelId }
+        : { channelId, status: { not: TicketStatus.ARCHIVED } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (!record) return null;
+
+    const ticket = this.toTicket(record);
+    if (ticket.Status !== TicketStatus.ARCHIVED) {
+      this.ticketCache.addTicket(ticket);
+    }
+    return ticket;
+  }
+
+  public async addUser(ticket: ITicket, userId: string): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        participantIds: { push: userId },
+        updatedAt: new Date(),
+      },
+    });
+
+    this.ticketCache.addUserToTicket(userId, ticket.ChannelId);
+  }
+
+  public async removeUser(ticket: ITicket, userId: string): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        participantIds: ticket.Users.filter((id) => id !== userId),
+        updatedAt: new Date(),
+      },
+    });
+
+    this.ticketCache.removeUserFromTicket(userId, ticket.ChannelId);
+  }
+
+  // The archive time is stored so the countdown survives a restart
+  public async close(
+    ticket: ITicket,
+    closedBy: string,
+    reason: string | undefined,
+    archiveAt: Date
+  ): Promise<void> {
+    const statusBeforeClose = ticket.Status;
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        status: TicketStatus.CLOSED,
+        closedAt: new Date(),
+        closeReason: reason ?? null,
+        archiveAt,
+        statusBeforeClose,
+        User_Ticket_closedByIdToUser: this.connectUser(closedBy),
+        updatedAt: new Date(),
+      },
+    });
+
+    this.ticketCache.closeTicket(ticket.ChannelId, reason, closedBy);
+    ticket.ArchiveAt = archiveAt;
+    ticket.StatusBeforeClose = statusBeforeClose;
+  }
+
+  // Closed tickets still waiting for their archive, including ones closed before archiveAt existed
+  public async findScheduledArchives(): Promise<ITicket[]> {
+    const records = await this.prisma.ticket.findMany({
+      where: { status: TicketStatus.CLOSED },
+      orderBy: { archiveAt: "asc" },
+    });
+
+    return records.map(
+      (record) =>
+        this.ticketCache.getTicket(record.channelId) ?? this.toTicket(record)
+    );
+  }
+
+  // Includes tickets without a stored transcript, their attachments expire all the same
+  public async findPurgeable(
+    archivedBefore: Date,
+    limit: number
+  ): Promise<ITicket[]> {
+    const records = await this.prisma.ticket.findMany({
+      where: {
+        status: TicketStatus.ARCHIVED,
+        archivedAt: { lte: archivedBefore },
+        purgedAt: null,
+      },
+      orderBy: { archivedAt: "asc" },
+      take: limit,
+    });
+    return records.map((record) => this.toTicket(record));
+  }
+
+  public async markPurged(ticket: ITicket): Promise<void> {
+    const purgedAt = new Date();
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: { purgedAt, updatedAt: purgedAt },
+    });
+    ticket.PurgedAt = purgedAt;
+  }
+
+  // Unlike TicketCache.searchTickets this also finds archived tickets
+  public async search(
+    filters: TicketSearchFilters,
+    skip: number,
+    take: number
+  ): Promise<{ tickets: ITicket[]; total: number }> {
+    const where = this.toSearchWhere(filters);
+    const [records, total] = await this.prisma.$transaction([
+      this.prisma.ticket.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take,
+      }),
+      this.prisma.ticket.count({ where }),
+    ]);
+
+    return {
+      tickets: records.map(
+        (record) =>
+          this.ticketCache.getTicket(record.channelId) ?? this.toTicket(record)
+      ),
+      total,
+    };
+  }
+
+  // Kept for the ticket search, transcripts are still generated from the channel
+  public async storeMessage(
+    ticket: ITicket,
+    message: { id: string; authorId: string; content: string; createdAt: Date }
+  ): Promise<void> {
+    await this.prisma.message.create({
+      data: {
+        id: randomUUID(),
+        messageId: message.id,
+        channelId: ticket.ChannelId,
+        content: message.content,
+        createdAt: message.createdAt,
+        updatedAt: new Date(),
+        User: this.connectUser(message.authorId),
+        Ticket: { connect: { id: ticket.Id } },
+      },
+    });
+  }
+
+  public async setStatus(
+    ticket: ITicket,
+    status: typeof TicketStatus.OPEN | typeof TicketStatus.PENDING
+  ): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: { status, updatedAt: new Date() },
+    });
+
+    this.ticketCache.setStatus(ticket.ChannelId, status);
+  }
+
+  // Clears the close details, archived tickets are put back into the cache
+  public async reopen(
+    ticket: ITicket,
+    status: TicketStatus = TicketStatus.OPEN
+  ): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        status,
+        closedAt: null,
+        closeReason: null,
+        archiveAt: null,
+        statusBeforeClose: null,
+        User_Ticket_closedByIdToUser: { disconnect: true },
+        updatedAt: new Date(),
+      },
+    });
+
+    if (!this.ticketCache.reopenTicket(ticket.ChannelId, status)) {
+      ticket.Status = status;
+      ticket.Closed = false;
+      ticket.ClosedAt = null;
+      ticket.CloseReason = undefined;
+      ticket.ClosedBy = undefined;
+      ticket.ArchiveAt = undefined;
+      ticket.StatusBeforeClose = undefined;
+      this.ticketCache.addTicket(ticket);
+    }
+  }
+
+  public async setHandler(
+    ticket: ITicket,
+    handlerId: string | null
+  ): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        User_Ticket_handlerIdToUser: handlerId
+          ? this.connectUser(handlerId)
+          : { disconnect: true },
+        updatedAt: new Date(),
+      },
+    });
+
+    this.ticketCache.setHandler(ticket.ChannelId, handlerId ?? undefined);
+  }
+
+  public async setType(ticket: ITicket, type: TicketType): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        TicketCategory: { connect: { id: type } },
+        updatedAt: new Date(),
+      },
+    });
+
+    if (!this.ticketCache.changeType(ticket.ChannelId, type)) {
+      ticket.Type = type;
+    }
+  }
+
+  // Id of the log channel message the transcript was posted with
+  public async setTranscriptMessage(
+    ticket: ITicket,
+    messageId: string
+  ): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: { transcriptMessageId: messageId, updatedAt: new Date() },
+    });
+
+    ticket.TranscriptMessageId = messageId;
+  }
+
+  public async setMergedInto(ticket: ITicket, target: ITicket): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        MergedInto: { connect: { id: target.Id } },
+        updatedAt: new Date(),
+      },
+    });
+
+    ticket.MergedInto = target.Id;
+  }
+
+  // Archived tickets only live in the database, so they leave the cache
+  public async archive(ticket: ITicket): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        status: TicketStatus.ARCHIVED,
+        closedAt: ticket.ClosedAt ?? new Date(),
+        archiveAt: null,
+        archivedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    ticket.Status = TicketStatus.ARCHIVED;
+    ticket.ArchiveAt = undefined;
+    ticket.ArchivedAt = new Date();
+    this.ticketCache.removeTicket(ticket.ChannelId);
+  }
+
+  public async setFirstResponse(
+    ticket: ITicket,
+    userId: string,
+    respondedAt: Date
+  ): Promise<void> {
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: {
+        firstResponseAt: respondedAt,
+        firstResponseById: userId,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (
+      !this.ticketCache.setFirstResponse(ticket.ChannelId, respondedAt, userId)
+    ) {
+      ticket.FirstResponseAt = respondedAt;
+      ticket.FirstResponseBy = userId;
+    }
+  }
+
+  public async markSlaBreached(ticket: ITicket): Promise<void> {
+    const breachedAt = new Date();
+    await this.prisma.ticket.update({
+      where: { id: ticket.Id },
+      data: { slaBreachedAt: breachedAt, updatedAt: new Date() },
+    });
+
+    ticket.SlaBreachedAt = breachedAt;
+  }
+
+  // Includes closed and archived tickets so closing does not reset the cooldown
+  public async findLatestCreatedAt(userId: string): Promise<Date | null> {
+    const record = await this.prisma.ticket.findFirst({
+      where: { creatorId: userId },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    });
+    return record?.createdAt ?? null;
+  }
+
+  public async findSlaRecords(since: Date): Promise<TicketSlaRecord[]> {
+    const records = await this.prisma.ticket.findMany({
+      where: { createdAt: { gte: since } },
+      select: {
+        categoryId: true,
+        createdAt: true,
+        firstResponseAt: true,
+        closedAt: true,
+        slaBreachedAt: true,
+      },
+    });
+
+    return records.map((record) => ({
+      Type: record.categoryId ?? "",
+      CreatedAt: record.createdAt,
+      FirstResponseAt: record.firstResponseAt,
+      ClosedAt: record.closedAt,
+      SlaBreachedAt: record.slaBreachedAt,
+    }));
+  }
+
+  // Status changes are kept in the Log table so they can be audited later
+  public async recordAudit(
+    ticket: ITicket,
+    action: string,
+    userId: string,
+    metadata: Record<string, string | null> = {}
+  ): Promise<void> {
+    await this.prisma.log.create({
+      data: {
+        id: randomUUID(),
+        type: LogType.AUDIT,
+        message: `Ticket ${ticket.Id} ${action} by ${userId}`,
+        metadata: {
+          ticketId: ticket.Id,
+          channelId: ticket.ChannelId,
+          action,
+          userId,
+          ...metadata,
+        },
+      },
+    });
+  }
+
+  private toSearchWhere(filters: TicketSearchFilters): Prisma.TicketWhereInput {
+    const conditions: Prisma.TicketWhereInput[] = [];
+
+    if (filters.UserId) {
+      conditions.push({
+        OR: [
+          { creatorId: filters.UserId },
+          { participantIds: { has: filters.UserId } },
+        ],
+      });
+    }
+
+    if (filters.Type) conditions.push({ categoryId: filters.Type });
+    if (filters.HandlerId) conditions.push({ handlerId: filters.HandlerId });
+    if (filters.Status) conditions.push({ status: filters.Status });
+
+    if (filters.IsOpen !== undefined) {
+      const openStatuses = [TicketStatus.OPEN, TicketStatus.PENDING];
+      conditions.push({
+        status: filters.IsOpen ? { in: openStatuses } : { notIn: openStatuses },
+      });
+    }
+
+    if (filters.CloseReason) {
+      conditions.push({
+        closeReason: { contains: filters.CloseReason, mode: "insensitive" },
+      });
+    }
+
+    if (filters.Text) {
+      const contains = { contains: filters.Text, mode: "insensitive" as const };
+      conditions.push({
+        OR: [
+          { subject: contains },
+          { reason: contains },
+          { Message: { some: { content: contains } } },
+        ],
+      });
+    }
+
+    if (filters.CreatedAfter || filters.CreatedBefore) {
+      conditions.push({
+        createdAt: { gte: filters.CreatedAfter, lte: filters.CreatedBefore },
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  private connectUser(userId: string) {
+    return {
+      connectOrCreate: {
+        where: { id: userId },
+        create: { id: userId, updatedAt: new Date() },
+      },
+    };
+  }
+
+  private toTicket(record: TicketRecord): ITicket {
+    if (!record.categoryId) {
+      this.logger.warn(`Ticket ${record.id} has no category assigned`);
+    }
+
+    return {
+      Id: record.id,
+      ChannelId: record.channelId,
+      Users: [...record.participantIds],
+      Type: record.categoryId ?? "",
+      CreatedBy: record.creatorId,
+      HandledBy: record.handlerId ?? undefined,
+      CreatedAt: record.createdAt,
+      Subject: record.subject ?? undefined,
+      Reason: record.reason ?? undefined,
+      Status: record.status,
+      Closed:
+        record.status === TicketStatus.CLOSED ||
+        record.status === TicketStatus.ARCHIVED,
+      ClosedAt: record.closedAt,
+      CloseReason: record.closeReason ?? undefined,
+      ClosedBy: record.closedById ?? undefined,
+      TranscriptMessageId: record.transcriptMessageId ?? undefined,
+      ArchiveAt: record.archiveAt ?? undefined,
+      StatusBeforeClose: record.statusBeforeClose ?? undefined,
+      ArchivedAt: record.archivedAt ?? undefined,
+      PurgedAt: record.purgedAt ?? undefined,
+      FirstResponseAt: record.firstResponseAt ?? undefined,
+      FirstResponseBy: record.firstResponseById ?? undefined,
+      SlaBreachedAt: record.slaBreachedAt ?? undefined,
+      Modmail: record.modmail,
+      MergedInto: record.mergedIntoId ?? undefined,
+    };
+  }
+}
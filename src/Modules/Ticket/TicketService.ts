@@ -1,10 +1,18 @@
+import { randomUUID } from "node:crypto";
 import {
   ActionRowBuilder,
   ButtonBuilder,
   ButtonStyle,
   ChannelType,
+  DiscordAPIError,
   EmbedBuilder,
+  RESTJSONErrorCodes,
+  StringSelectMenuBuilder,
+  StringSelectMenuOptionBuilder,
+  SnowflakeUtil,
+  Events,
   type Client,
+  type Message,
   type TextChannel,
 } from "discord.js";
 import { bootstrap } from "../..";
@@ -12,40 +20,188 @@ import type { IBoot } from "../../interfaces/IBoot";
 import type { Logger } from "../../logger";
 import { LoggerFactory } from "../../logger/factory";
 import { BaseService } from "../../services";
+import type { DatabaseService } from "../../services/database";
 import type { ServiceConfig } from "../../services/types";
-import { config, type ITicket, type TicketType } from "../../config";
+import {
+  config,
+  type ITicket,
+  type ITicketCategory,
+  type ITicketMenu,
+  type TicketType,
+} from "../../config";
 import { TicketCache } from "./TicketCache";
+import {
+  TicketRepository,
+  type NewTicket,
+  type TicketSearchFilters,
+  type TicketSlaRecord,
+} from "./TicketRepository";
+import { TicketCategoryRepository } from "./TicketCategoryRepository";
+import {
+  TicketMenuRepository,
+  type TicketMenuInput,
+} from "./TicketMenuRepository";
+import { TicketFeedbackRepository } from "./TicketFeedbackRepository";
+import { TicketBlacklistRepository } from "./TicketBlacklistRepository";
+import { TicketNoteRepository } from "./TicketNoteRepository";
+import { TicketSnippetRepository } from "./TicketSnippetRepository";
+import { TicketStaffRepository } from "./TicketStaffRepository";
+import { TicketAttachmentStore } from "./TicketAttachmentStore";
+import { TicketHandler, type TicketChannel } from "./TicketHandler";
+
+const DEFAULT_MENU_TITLE = "🎫 Create a Support Ticket";
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Channel deletions are rate limited, a backlog is worked off over several runs
+const PURGE_BATCH_SIZE = 10;
+const SEARCH_SESSION_TTL_MS = 15 * 60 * 1000;
+// DMs of users who never picked a category are dropped after this, the next DM prompts again
+const PENDING_MODMAIL_TTL_MS = 15 * 60 * 1000;
+
+// Ticket changes within this window are folded into one dashboard edit
+const DASHBOARD_DEBOUNCE_MS = 5000;
+const DASHBOARD_TITLE = "📋 Ticket Queue";
+// Discord rejects embeds above 6000 characters in total
+const EMBED_CHAR_LIMIT = 6000;
+// Kept free for the closing "…and N more" note of the dashboard
+const DASHBOARD_RESERVED_CHARS = 50;
+
+export interface TicketSearchSession {
+  UserId: string;
+  Filters: TicketSearchFilters;
+  CreatedAt: number;
+}
+
+interface PendingModmailSession {
+  Messages: Message[];
+  CreatedAt: number;
+}
+
+export interface TicketSlaMetrics {
+  firstResponse: {
+    count: number;
+    averageMinutes: number | null;
+    breached: number;
+  };
+  resolution: {
+    count: number;
+    averageMinutes: number | null;
+    breached: number;
+  };
+}
 
 export class TicketService extends BaseService {
   public logger: Logger = LoggerFactory.create("TicketService");
   public readonly identifier: string = "ticket-service";
   public readonly config: ServiceConfig = {
     priority: 1000,
-    dependencies: [],
-    timeout: 1000,
+    dependencies: ["database"],
+    timeout: 10000,
     restartOnError: true,
   };
 
-  private ticketCategories: string[] = [];
-
   private ticketCache: TicketCache = new TicketCache();
+  private ticketRepository: TicketRepository | null = null;
+  private categoryRepository: TicketCategoryRepository | null = null;
+  private menuRepository: TicketMenuRepository | null = null;
+  private feedbackRepository: TicketFeedbackRepository | null = null;
+  private blacklistRepository: TicketBlacklistRepository | null = null;
+  private noteRepository: TicketNoteRepository | null = null;
+  private snippetRepository: TicketSnippetRepository | null = null;
+  private staffRepository: TicketStaffRepository | null = null;
+  private ticketHandler: TicketHandler | null = null;
+  private attachmentStore = new TicketAttachmentStore();
+
+  // Last non-bot message per ticket channel and when the inactivity warning went out
+  private lastActivity: Map<string, number> = new Map();
+  private inactivityWarnings: Map<string, number> = new Map();
+  private schedulerInterval: ReturnType<typeof setInterval> | null = null;
+
+  private dashboardMessageId: string | null = null;
+  private dashboardTimer: ReturnType<typeof setTimeout> | null = null;
+  private dashboardUpdating = false;
+
+  // DMs of users without a modmail ticket, relayed once they picked a category
+  private pendingModmailSessions: Map<string, PendingModmailSession> = new Map();
+  // Filters of recent /ticket search calls, looked up again by the page buttons
+  private ticketSearches: Map<string, TicketSearchSession> = new Map();
 
   private client: Client = bootstrap.getClient().client!;
 
   public async onServiceEnable(): Promise<void> {
-    await this.setupTicketMessage();
+    const databaseService = bootstrap
+      .getServiceManager()
+      .getService<DatabaseService>("database");
 
-    for (const category of Object.values(config.ticket.ticketTypes)) {
-      this.ticketCategories.push(category.categoryId);
+    if (!databaseService) {
+      throw new Error("DatabaseService not found");
     }
+
+    const prisma = databaseService.getPrismaClient();
+    this.ticketRepository = new TicketRepository(prisma, this.ticketCache);
+    this.categoryRepository = new TicketCategoryRepository(
+      prisma,
+      this.ticketCache
+    );
+    this.menuRepository = new TicketMenuRepository(prisma);
+    this.feedbackRepository = new TicketFeedbackRepository(prisma);
+    this.blacklistRepository = new TicketBlacklistRepository(prisma);
+    this.noteRepository = new TicketNoteRepository(prisma);
+    this.snippetRepository = new TicketSnippetRepository(prisma);
+    this.staffRepository = new TicketStaffRepository(prisma);
+
+    const categories = await this.categoryRepository.load();
+    this.logger.info(`Loaded ${categories} ticket categories`);
+
+    const snippets = await this.snippetRepository.load();
+    this.logger.info(`Loaded ${snippets} ticket snippets`);
+
+    const warmed = await this.ticketRepository.warmCache();
+    this.logger.info(`Loaded ${warmed} tickets from the database`);
+
+    await this.syncTicketMenus();
+
+    // Archiving needs the guild channels, which are only there once the client is ready
+    if (this.client.isReady()) {
+      await this.resumeScheduledArchives();
+    } else {
+      this.client.once(Events.ClientReady, () => this.resumeScheduledArchives());
+    }
+
+    if (config.ticket.channelConfig.queueDashboardChannelId) {
+      this.ticketCache.onChange(() => this.scheduleDashboardUpdate());
+      this.scheduleDashboardUpdate();
+    }
+
+    // Inactivity and SLA checks share one timer
+    this.schedulerInterval = setInterval(
+      () => this.runScheduledChecks(),
+      SCHEDULER_INTERVAL_MS
+    );
   }
 
-  public async onServiceDisable(): Promise<void> {}
+  public async onServiceDisable(): Promise<void> {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+
+    if (this.dashboardTimer) {
+      clearTimeout(this.dashboardTimer);
+      this.dashboardTimer = null;
+    }
+  }
 
   public async onHealthCheck(): Promise<boolean> {
     const guild = await this.client.guilds.fetch(config.guildId);
 
-    for (const category of this.ticketCategories) {
+    const ticketCategories = new Set(
+      this.getCategoryRepository()
+        .getAll()
+        .map((category) => category.DiscordCategoryId)
+    );
+
+    for (const category of ticketCategories) {
       const categoryChannel = await guild.channels.fetch(category);
       if (
         !categoryChannel ||
@@ -59,7 +215,9 @@ export class TicketService extends BaseService {
       );
 
       for (const [_, channel] of channelsInCategory) {
-        const ticket = this.ticketCache.getTicket(channel.id);
+        const ticket = await this.getTicketRepository().findByChannelId(
+          channel.id
+        );
         if (ticket) {
           continue;
         }
@@ -76,70 +234,615 @@ export class TicketService extends BaseService {
           continue;
         }
 
-        try {
-          // Reconstruct ticket data from channel
-          const reconstructedTicket = await this.reconstructTicketFromChannel(
-            textChannel,
-            ticketType
-          );
+        await this.storeReconstructedTicket(textChannel, ticketType);
+      }
+    }
+
+    // Thread tickets live in the thread channel of their category instead
+    for (const category of this.getCategoryRepository().getAll()) {
+      if (!category.ThreadChannelId) continue;
+
+      const parent = await guild.channels
+        .fetch(category.ThreadChannelId)
+        .catch(() => null);
+      if (!parent || parent.type !== ChannelType.GuildText) continue;
+
+      const { threads } = await parent.threads.fetchActive();
+      for (const [_, thread] of threads) {
+        if (
+          thread.type !== ChannelType.PrivateThread ||
+          thread.ownerId !== this.client.user?.id
+        ) {
+          continue;
+        }
+
+        const ticket = await this.getTicketRepository().findByChannelId(
+          thread.id
+        );
+        if (ticket) {
+          continue;
+        }
+
+        await this.storeReconstructedTicket(thread, category.Id);
+      }
+    }
+
+    return true;
+  }
+
+  // Message edits are rate limited, so bursts of ticket changes only edit the dashboard once
+  private scheduleDashboardUpdate(): void {
+    if (this.dashboardTimer) return;
+
+    this.dashboardTimer = setTimeout(async () => {
+      // An edit still in flight picks up the changes with another run afterwards
+      if (this.dashboardUpdating) {
+        this.dashboardTimer = null;
+        this.scheduleDashboardUpdate();
+        return;
+      }
+
+      this.dashboardTimer = null;
+      this.dashboardUpdating = true;
+      try {
+        await this.updateQueueDashboard();
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error("Error updating the ticket queue dashboard:", err);
+      } finally {
+        this.dashboardUpdating = false;
+      }
+    }, DASHBOARD_DEBOUNCE_MS);
+  }
+
+  private async updateQueueDashboard(): Promise<void> {
+    if (!this.client.isReady()) {
+      this.scheduleDashboardUpdate();
+      return;
+    }
+
+    const channel = await this.client.channels
+      .fetch(config.ticket.channelConfig.queueDashboardChannelId!)
+      .catch(() => null);
+    if (!channel || channel.type !== ChannelType.GuildText) {
+      this.logger.warn("Ticket queue dashboard channel not found");
+      return;
+    }
+
+    const embed = this.createQueueDashboardEmbed();
+
+    // After a restart the previous dashboard message is reused
+    if (!this.dashboardMessageId) {
+      const recent = await channel.messages.fetch({ limit: 20 });
+      this.dashboardMessageId =
+        recent.find(
+          (message) =>
+            message.author.id === this.client.user?.id &&
+            message.embeds[0]?.title === DASHBOARD_TITLE
+        )?.id ?? null;
+    }
+
+    if (this.dashboardMessageId) {
+      try {
+        await channel.messages.edit(this.dashboardMessageId, {
+          embeds: [embed],
+        });
+        return;
+      } catch (error) {
+        // Only a deleted dashboard is replaced, anything else would leave a duplicate behind
+        if (
+          !(error instanceof DiscordAPIError) ||
+          error.code !== RESTJSONErrorCodes.UnknownMessage
+        ) {
+          const err =
+            error instanceof Error ? error : new Error(String(error));
+          this.logger.error("Error editing the ticket queue dashboard:", err);
+          this.scheduleDashboardUpdate();
+          return;
+        }
+      }
+    }
+
+    const message = await channel.send({ embeds: [embed] });
+    this.dashboardMessageId = message.id;
+  }
+
+  private createQueueDashboardEmbed(): EmbedBuilder {
+    const openTickets = this.ticketCache
+      .getOpenTickets()
+      .sort((a, b) => a.CreatedAt.getTime() - b.CreatedAt.getTime());
+    const unanswered = openTickets.filter((ticket) => !ticket.FirstResponseAt);
+    const pending = openTickets.filter((ticket) => ticket.Status === "PENDING");
+
+    const description =
+      openTickets.length === 0
+        ? "There are no open tickets right now. 🎉"
+        : `**${openTickets.length}** open · **${unanswered.length}** unanswered · **${pending.length}** pending`;
+    const footer = "Eterna - Support Team · Last updated";
+
+    const embed = new EmbedBuilder()
+      .setTitle(DASHBOARD_TITLE)
+      .setColor(unanswered.length > 0 ? 0xe67e22 : 0x2ecc71)
+      .setFooter({ text: footer })
+      .setTimestamp();
+
+    let budget =
+      EMBED_CHAR_LIMIT -
+      DASHBOARD_RESERVED_CHARS -
+      DASHBOARD_TITLE.length -
+      description.length -
+      footer.length;
+    let listed = 0;
+
+    // Embeds hold at most 25 fields, categories beyond that are left out
+    for (const category of this.getCategoryRepository().getAll().slice(0, 25)) {
+      const tickets = openTickets.filter(
+        (ticket) => ticket.Type === category.Id
+      );
+      if (tickets.length === 0) continue;
+
+      const name = `${category.Emoji ?? "🎫"} ${category.Name} (${tickets.length})`;
+      // Field values are limited to 1024 characters
+      const limit = Math.min(1024, budget - name.length);
+
+      const lines: string[] = [];
+      for (const [index, ticket] of tickets.entries()) {
+        const line =
+          `${ticket.FirstResponseAt ? "" : "⚠️ "}<#${ticket.ChannelId}> · ` +
+          `<t:${Math.floor(ticket.CreatedAt.getTime() / 1000)}:R> · ` +
+          `${ticket.HandledBy ? `<@${ticket.HandledBy}>` : "unclaimed"}` +
+          (ticket.Status === "PENDING" ? " · pending" : "");
+
+        const more = `…and ${tickets.length - index} more`;
+        const rest = index === tickets.length - 1 ? [] : [more];
+        if ([...lines, line, ...rest].join("\n").length > limit) {
+          if (lines.length > 0) lines.push(more);
+          break;
+        }
+        lines.push(line);
+      }
+
+      // Not even one ticket fits anymore, the remaining ones are summed up below
+      if (lines.length === 0) break;
+
+      const value = lines.join("\n");
+      embed.addFields({ name, value });
+      budget -= name.length + value.length;
+      listed += tickets.length;
+    }
+
+    const hidden = openTickets.length - listed;
+    embed.setDescription(
+      hidden > 0 ? `${description}\n…and ${hidden} more tickets` : description
+    );
+
+    return embed;
+  }
 
-          if (reconstructedTicket) {
-            // Add to cache
-            this.ticketCache.addTicket(reconstructedTicket);
-            this.logger.info(
-              `✅ Added reconstructed ticket ${textChannel.name} (${textChannel.id}) to cache`
-            );
-          } else {
-            this.logger.warn(
-              `⚠️ Could not reconstruct ticket data for channel ${textChannel.name}`
-            );
+  private async resumeScheduledArchives(): Promise<void> {
+    try {
+      this.ticketHandler ??= new TicketHandler();
+      const resumed = await this.ticketHandler.resumeScheduledArchives();
+      this.logger.info(`Resumed ${resumed} scheduled ticket archives`);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error resuming scheduled ticket archives:", err);
+    }
+  }
+
+  private async runScheduledChecks(): Promise<void> {
+    if (config.ticket.settings.autoCloseTimeoutMinutes > 0) {
+      try {
+        await this.checkInactiveTickets();
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error("Error checking inactive tickets:", err);
+      }
+    }
+
+    try {
+      await this.checkSlaBreaches();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error checking ticket SLAs:", err);
+    }
+
+    try {
+      await this.liftExpiredBlacklists();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error lifting expired ticket blacklists:", err);
+    }
+
+    if (config.ticket.settings.archiveRetention.deleteAfterDays > 0) {
+      try {
+        await this.purgeExpiredArchives();
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error("Error purging archived tickets:", err);
+      }
+    }
+  }
+
+  // Deletes stored attachments past the retention, and the channel too once a transcript is kept
+  private async purgeExpiredArchives(): Promise<void> {
+    const { deleteAfterDays } = config.ticket.settings.archiveRetention;
+    const ticketRepository = this.getTicketRepository();
+    const tickets = await ticketRepository.findPurgeable(
+      new Date(Date.now() - deleteAfterDays * 24 * 60 * 60 * 1000),
+      PURGE_BATCH_SIZE
+    );
+
+    for (const ticket of tickets) {
+      try {
+        // Without a transcript the channel is the only record of the ticket, so it stays
+        if (ticket.TranscriptMessageId) {
+          // A channel someone already deleted still counts as purged
+          const channel = await this.client.channels
+            .fetch(ticket.ChannelId)
+            .catch((error) => this.ignoreUnknownChannel(error));
+          if (channel && !channel.isDMBased()) {
+            await channel
+              .delete(`Archived ticket older than ${deleteAfterDays} days`)
+              .catch((error) => this.ignoreUnknownChannel(error));
           }
-        } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          this.logger.error(
-            `❌ Error reconstructing ticket for channel ${textChannel.name}:`,
-            err
+        } else {
+          this.logger.warn(
+            `Kept the channel of ticket ${ticket.Id}, no transcript was stored`
           );
         }
+
+        await this.attachmentStore.remove(ticket);
+        await ticketRepository.markPurged(ticket);
+        await ticketRepository.recordAudit(
+          ticket,
+          "purged",
+          this.client.user!.id
+        );
+        this.logger.info(`Purged archived ticket ${ticket.Id}`);
+      } catch (error) {
+        // One failing ticket must not hold back the rest of the batch
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error(`Error purging archived ticket ${ticket.Id}:`, err);
       }
     }
+  }
 
-    return true;
+  private ignoreUnknownChannel(error: unknown): null {
+    if (
+      error instanceof DiscordAPIError &&
+      error.code === RESTJSONErrorCodes.UnknownChannel
+    ) {
+      return null;
+    }
+    throw error;
   }
 
-  private getTicketTypeFromCategory(categoryId: string): TicketType | null {
-    for (const [type, typeConfig] of Object.entries(
-      config.ticket.ticketTypes
-    )) {
-      if (typeConfig.categoryId === categoryId) {
-        return type as TicketType;
+  private async liftExpiredBlacklists(): Promise<void> {
+    const lifted = await this.getBlacklistRepository().removeExpired();
+    for (const entry of lifted) {
+      this.logger.info(`Ticket blacklist of ${entry.UserId} expired`, {
+        reason: entry.Reason,
+        moderatorId: entry.ModeratorId,
+      });
+    }
+  }
+
+  // Pings the escalation role once per ticket that missed its first response target
+  private async checkSlaBreaches(): Promise<void> {
+    const now = Date.now();
+
+    for (const ticket of this.ticketCache.getOpenTickets()) {
+      if (ticket.FirstResponseAt || ticket.SlaBreachedAt) continue;
+
+      const targetMinutes = this.getCategoryRepository().get(ticket.Type)
+        ?.FirstResponseTargetMinutes;
+      if (
+        !targetMinutes ||
+        now - ticket.CreatedAt.getTime() < targetMinutes * 60 * 1000
+      ) {
+        continue;
+      }
+
+      // Marked first so a failing alert is not retried every minute
+      await this.getTicketRepository().markSlaBreached(ticket);
+
+      const channel = this.client.channels.cache.get(
+        ticket.ChannelId
+      ) as TicketChannel;
+      if (!channel) continue;
+
+      const roleId =
+        config.ticket.permissions.escalationRoleId ??
+        config.ticket.permissions.alertRoleId;
+
+      const embed = new EmbedBuilder()
+        .setTitle("🚨 First Response Overdue")
+        .setDescription(
+          `This ticket has been waiting <t:${Math.floor(
+            ticket.CreatedAt.getTime() / 1000
+          )}:R> for a reply from staff.\n\n` +
+            `The first response target for this category is **${targetMinutes} minutes**.`
+        )
+        .setColor(0xe74c3c)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      await channel.send({ content: `<@&${roleId}>`, embeds: [embed] });
+      this.logger.warn(
+        `Ticket ${ticket.ChannelId} breached its first response target`
+      );
+    }
+  }
+
+  private computeSlaMetrics(records: TicketSlaRecord[]): TicketSlaMetrics {
+    const firstResponseMinutes: number[] = [];
+    const resolutionMinutes: number[] = [];
+    let firstResponseBreached = 0;
+    let resolutionBreached = 0;
+
+    for (const record of records) {
+      const category = this.getCategoryRepository().get(record.Type);
+
+      if (record.FirstResponseAt) {
+        const minutes =
+          (record.FirstResponseAt.getTime() - record.CreatedAt.getTime()) /
+          60000;
+        firstResponseMinutes.push(minutes);
+        if (
+          category?.FirstResponseTargetMinutes &&
+          minutes > category.FirstResponseTargetMinutes
+        ) {
+          firstResponseBreached++;
+        }
+      }
+      if (record.SlaBreachedAt && !record.FirstResponseAt) {
+        firstResponseBreached++;
+      }
+
+      if (record.ClosedAt) {
+        const minutes =
+          (record.ClosedAt.getTime() - record.CreatedAt.getTime()) / 60000;
+        resolutionMinutes.push(minutes);
+        if (
+          category?.ResolutionTargetMinutes &&
+          minutes > category.ResolutionTargetMinutes
+        ) {
+          resolutionBreached++;
+        }
+      }
+    }
+
+    const average = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : null;
+
+    return {
+      firstResponse: {
+        count: firstResponseMinutes.length,
+        averageMinutes: average(firstResponseMinutes),
+        breached: firstResponseBreached,
+      },
+      resolution: {
+        count: resolutionMinutes.length,
+        averageMinutes: average(resolutionMinutes),
+        breached: resolutionBreached,
+      },
+    };
+  }
+
+  private async checkInactiveTickets(): Promise<void> {
+    const {
+      autoCloseTimeoutMinutes,
+      autoCloseWarningFraction,
+      autoCloseSkipClaimed,
+    } = config.ticket.settings;
+    const timeoutMs = autoCloseTimeoutMinutes * 60 * 1000;
+    const warningMs = timeoutMs * autoCloseWarningFraction;
+    const now = Date.now();
+
+    const openTickets = this.ticketCache.getOpenTickets();
+    const openChannelIds = new Set(
+      openTickets.map((ticket) => ticket.ChannelId)
+    );
+
+    // Closed or archived tickets no longer need to be tracked
+    for (const channelId of this.lastActivity.keys()) {
+      if (!openChannelIds.has(channelId)) {
+        this.lastActivity.delete(channelId);
+        this.inactivityWarnings.delete(channelId);
+      }
+    }
+
+    for (const ticket of openTickets) {
+      // Waiting on the user does not count as inactivity, the clock restarts on resume
+      if (
+        ticket.Status === "PENDING" ||
+        (autoCloseSkipClaimed && ticket.HandledBy)
+      ) {
+        this.recordActivity(ticket.ChannelId);
+        continue;
+      }
+
+      const idleMs = now - this.getLastActivity(ticket);
+      const warnedAt = this.inactivityWarnings.get(ticket.ChannelId);
+
+      if (warnedAt === undefined) {
+        if (idleMs >= warningMs) {
+          await this.sendInactivityWarning(ticket, timeoutMs - idleMs);
+        }
+        continue;
+      }
+
+      // The warning always gets its full grace period, also after a restart
+      if (idleMs >= timeoutMs && now - warnedAt >= timeoutMs - warningMs) {
+        await this.closeInactiveTicket(ticket, autoCloseTimeoutMinutes);
+      }
+    }
+  }
+
+  private getLastActivity(ticket: ITicket): number {
+    let lastActivity = this.lastActivity.get(ticket.ChannelId);
+
+    if (lastActivity === undefined) {
+      // After a restart the last message of the channel is the best guess
+      const channel = this.client.channels.cache.get(ticket.ChannelId) as
+        | TicketChannel
+        | undefined;
+      lastActivity = channel?.lastMessageId
+        ? SnowflakeUtil.timestampFrom(channel.lastMessageId)
+        : ticket.CreatedAt.getTime();
+      this.lastActivity.set(ticket.ChannelId, lastActivity);
+    }
+
+    return lastActivity;
+  }
+
+  private async sendInactivityWarning(
+    ticket: ITicket,
+    remainingMs: number
+  ): Promise<void> {
+    const channel = this.client.channels.cache.get(
+      ticket.ChannelId
+    ) as TicketChannel;
+    if (!channel) return;
+
+    const closesAt = Math.floor(
+      (Date.now() + Math.max(remainingMs, 0)) / 1000
+    );
+
+    const embed = new EmbedBuilder()
+      .setTitle("⏰ Inactive Ticket")
+      .setDescription(
+        `There has been no activity in this ticket for a while.\n\n` +
+          `It will be closed automatically <t:${closesAt}:R> unless someone replies or presses **Keep open**.`
+      )
+      .setColor(0xf39c12)
+      .setFooter({ text: "Eterna - Support Team" })
+      .setTimestamp();
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`keep_open_${ticket.ChannelId}`)
+        .setLabel("Keep open")
+        .setEmoji("📌")
+        .setStyle(ButtonStyle.Primary)
+    );
+
+    await channel.send({
+      content: `<@${ticket.CreatedBy}>`,
+      embeds: [embed],
+      components: [row],
+    });
+    this.inactivityWarnings.set(ticket.ChannelId, Date.now());
+  }
+
+  private async closeInactiveTicket(
+    ticket: ITicket,
+    timeoutMinutes: number
+  ): Promise<void> {
+    this.ticketHandler ??= new TicketHandler();
+
+    const result = await this.ticketHandler.closeTicket(
+      ticket.ChannelId,
+      this.client.user!.id,
+      `Closed automatically after ${timeoutMinutes} minutes of inactivity`
+    );
+
+    this.lastActivity.delete(ticket.ChannelId);
+    this.inactivityWarnings.delete(ticket.ChannelId);
+
+    if (result.success) {
+      this.logger.info(`Closed inactive ticket ${ticket.ChannelId}`);
+    } else {
+      this.logger.warn(
+        `Could not close inactive ticket ${ticket.ChannelId}: ${result.message}`
+      );
+    }
+  }
+
+  private async storeReconstructedTicket(
+    channel: TicketChannel,
+    ticketType: TicketType
+  ): Promise<void> {
+    try {
+      // Reconstruct ticket data from channel
+      const reconstructedTicket = await this.reconstructTicketFromChannel(
+        channel,
+        ticketType
+      );
+
+      if (reconstructedTicket) {
+        // Persist it, which also adds it to the cache
+        await this.getTicketRepository().create(reconstructedTicket);
+        this.logger.info(
+          `✅ Stored reconstructed ticket ${channel.name} (${channel.id})`
+        );
+      } else {
+        this.logger.warn(
+          `⚠️ Could not reconstruct ticket data for channel ${channel.name}`
+        );
       }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(
+        `❌ Error reconstructing ticket for channel ${channel.name}:`,
+        err
+      );
     }
-    return null;
+  }
+
+  private getTicketTypeFromCategory(categoryId: string): TicketType | null {
+    return (
+      this.getCategoryRepository().getByDiscordCategoryId(categoryId)?.Id ??
+      null
+    );
   }
 
   private async reconstructTicketFromChannel(
-    channel: TextChannel,
+    channel: TicketChannel,
     ticketType: TicketType
-  ): Promise<ITicket | null> {
+  ): Promise<NewTicket | null> {
     try {
       // Get channel permissions to find users with access
       const users: string[] = [];
       let createdBy = "";
 
-      // Check permission overwrites for users
-      const permissions = channel.permissionOverwrites.cache;
+      if (channel.isThread()) {
+        // Thread members include the pinged staff, only the others are participants
+        this.ticketHandler ??= new TicketHandler();
+        const members = await channel.members.fetch({ withMember: true });
 
-      for (const [id, overwrite] of permissions) {
-        if (overwrite.type === 1) {
-          // Type 1 = User
-          users.push(id);
+        for (const [id, member] of members) {
+          if (
+            id === this.client.user?.id ||
+            (member.guildMember &&
+              this.ticketHandler.isStaff(member.guildMember, ticketType))
+          ) {
+            continue;
+          }
 
-          // Try to determine the creator (first user or from channel name)
+          users.push(id);
           if (!createdBy) {
             createdBy = id;
           }
         }
+      } else {
+        // Check permission overwrites for users
+        const permissions = channel.permissionOverwrites.cache;
+
+        for (const [id, overwrite] of permissions) {
+          if (overwrite.type === 1) {
+            // Type 1 = User
+            users.push(id);
+
+            // Try to determine the creator (first user or from channel name)
+            if (!createdBy) {
+              createdBy = id;
+            }
+          }
+        }
       }
 
       // Try to extract creator from channel name pattern
@@ -174,17 +877,22 @@ export class TicketService extends BaseService {
         createdBy = users[0];
       }
 
-      // Determine if ticket is closed based on category
-      const isArchived =
-        channel.parentId ===
-        config.ticket.channelConfig.ticketArchiveCategoryId;
+      // Determine if ticket is closed based on category, archived threads are locked
+      const { ticketArchiveCategoryId, overflowArchiveCategoryIds } =
+        config.ticket.channelConfig;
+      const isArchived = channel.isThread()
+        ? channel.locked === true
+        : [ticketArchiveCategoryId, ...overflowArchiveCategoryIds].includes(
+            channel.parentId ?? ""
+          );
 
-      const reconstructedTicket: ITicket = {
+      const reconstructedTicket: NewTicket = {
         ChannelId: channel.id,
         Users: users,
         Type: ticketType,
         CreatedBy: createdBy,
         CreatedAt: channel.createdAt || new Date(),
+        Status: isArchived ? "ARCHIVED" : "OPEN",
         Closed: isArchived,
         ClosedAt: isArchived ? channel.createdAt || new Date() : null,
         CloseReason: isArchived ? "Reconstructed from archive" : undefined,
@@ -206,96 +914,463 @@ export class TicketService extends BaseService {
     return this.ticketCache;
   }
 
-  private async setupTicketMessage(): Promise<void> {
-    try {
-      const messageChannel = this.client.channels.cache.get(
-        config.ticket.channelConfig.messageChannelId
-      ) as TextChannel;
+  public getTicketRepository(): TicketRepository {
+    if (!this.ticketRepository) {
+      throw new Error("TicketRepository not initialized");
+    }
+    return this.ticketRepository;
+  }
 
-      if (!messageChannel) {
-        this.logger.info(
-          `❌ Message channel ${config.ticket.channelConfig.messageChannelId} not found`
-        );
-        return;
-      }
+  public getCategoryRepository(): TicketCategoryRepository {
+    if (!this.categoryRepository) {
+      throw new Error("TicketCategoryRepository not initialized");
+    }
+    return this.categoryRepository;
+  }
+
+  public getMenuRepository(): TicketMenuRepository {
+    if (!this.menuRepository) {
+      throw new Error("TicketMenuRepository not initialized");
+    }
+    return this.menuRepository;
+  }
+
+  public getFeedbackRepository(): TicketFeedbackRepository {
+    if (!this.feedbackRepository) {
+      throw new Error("TicketFeedbackRepository not initialized");
+    }
+    return this.feedbackRepository;
+  }
+
+  public getBlacklistRepository(): TicketBlacklistRepository {
+    if (!this.blacklistRepository) {
+      throw new Error("TicketBlacklistRepository not initialized");
+    }
+    return this.blacklistRepository;
+  }
+
+  public getNoteRepository(): TicketNoteRepository {
+    if (!this.noteRepository) {
+      throw new Error("TicketNoteRepository not initialized");
+    }
+    return this.noteRepository;
+  }
+
+  public getSnippetRepository(): TicketSnippetRepository {
+    if (!this.snippetRepository) {
+      throw new Error("TicketSnippetRepository not initialized");
+    }
+    return this.snippetRepository;
+  }
+
+  public getStaffRepository(): TicketStaffRepository {
+    if (!this.staffRepository) {
+      throw new Error("TicketStaffRepository not initialized");
+    }
+    return this.staffRepository;
+  }
+
+  // Live counts from the cache plus SLA metrics of the tickets created in the last days
+  public async getTicketStats(days = 30) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const records = await this.getTicketRepository().findSlaRecords(since);
 
-      // Check if there's already a ticket message
-      const messages = await messageChannel.messages.fetch({ limit: 50 });
-      const existingMessage = messages.find(
-        (msg) =>
-          msg.author.id === this.client.user?.id &&
-          msg.embeds.length > 0 &&
-          msg.embeds[0].title === "🎫 Create a Support Ticket"
+    const byType: Record<TicketType, TicketSlaMetrics> = {};
+    for (const type of new Set(records.map((record) => record.Type))) {
+      byType[type] = this.computeSlaMetrics(
+        records.filter((record) => record.Type === type)
       );
+    }
 
-      if (existingMessage) {
-        this.logger.info(
-          "✅ Ticket selection message already exists, updating buttons..."
-        );
-        // Update the existing message with fresh buttons
-        await existingMessage.edit({
-          embeds: [existingMessage.embeds[0]],
-          components: [this.createTicketButtons()],
+    return {
+      ...this.ticketCache.getTicketStats(),
+      sla: { ...this.computeSlaMetrics(records), byType },
+    };
+  }
+
+  // Tracks activity and the first staff reply for every user message in a ticket
+  public async handleTicketMessage(message: Message<true>): Promise<void> {
+    const ticket = this.ticketCache.getTicket(message.channelId);
+    if (!ticket || ticket.Closed) return;
+
+    this.recordActivity(message.channelId);
+
+    if (message.content) {
+      await this.getTicketRepository()
+        .storeMessage(ticket, {
+          id: message.id,
+          authorId: message.author.id,
+          content: message.content,
+          createdAt: message.createdAt,
+        })
+        .catch((error) => {
+          this.logger.info("Error storing ticket message:", error);
         });
+    }
+
+    if (ticket.FirstResponseAt || message.author.id === ticket.CreatedBy) {
+      return;
+    }
+
+    const member =
+      message.member ??
+      (await message.guild.members.fetch(message.author.id).catch(() => null));
+
+    this.ticketHandler ??= new TicketHandler();
+    if (!member || !this.ticketHandler.isStaff(member, ticket.Type)) return;
+
+    await this.getTicketRepository().setFirstResponse(
+      ticket,
+      message.author.id,
+      message.createdAt
+    );
+  }
+
+  // DMs are relayed into the open modmail ticket or answered with a category prompt
+  public async handleDirectMessage(message: Message): Promise<void> {
+    if (!config.ticket.settings.modmailEnabled) return;
+
+    const ticket = this.ticketCache
+      .getTicketsByUser(message.author.id)
+      .find(
+        (entry) =>
+          entry.Modmail && !entry.Closed && entry.CreatedBy === message.author.id
+      );
+
+    this.ticketHandler ??= new TicketHandler();
+
+    if (ticket) {
+      if (await this.ticketHandler.relayModmailMessage(ticket, message)) {
+        this.recordActivity(ticket.ChannelId);
+        await message.react("✅").catch(() => null);
+      }
+      return;
+    }
+
+    // The category prompt is already out, later DMs are only queued
+    const session = this.getPendingModmailSession(message.author.id);
+    if (session) {
+      session.Messages.push(message);
+      return;
+    }
+
+    const member = await this.client.guilds.cache
+      .get(config.guildId)
+      ?.members.fetch(message.author.id)
+      .catch(() => null);
+    if (!member) {
+      await message.reply(
+        "❌ You must be a member of the server to contact the support team."
+      );
+      return;
+    }
+
+    const categories = this.getCategoryRepository().getActive();
+    if (categories.length === 0) {
+      await message.reply("❌ No ticket categories are available right now.");
+      return;
+    }
+
+    this.pendingModmailSessions.set(message.author.id, {
+      Messages: [message],
+      CreatedAt: Date.now(),
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle("✉️ Contact the Support Team")
+      .setDescription(
+        "Choose what your message is about to open a ticket. " +
+          "Staff will answer you right here."
+      )
+      .setColor(0x5865f2)
+      .setFooter({ text: "Eterna - Support Team" });
+
+    await message.reply({
+      embeds: [embed],
+      components: [this.createTicketSelectMenu(categories, "modmail_select")],
+    });
+  }
+
+  public takePendingModmailMessages(userId: string): Message[] {
+    const session = this.getPendingModmailSession(userId);
+    this.pendingModmailSessions.delete(userId);
+    return session?.Messages ?? [];
+  }
+
+  private getPendingModmailSession(
+    userId: string
+  ): PendingModmailSession | undefined {
+    const session = this.pendingModmailSessions.get(userId);
+    if (!session) return undefined;
+
+    if (Date.now() - session.CreatedAt > PENDING_MODMAIL_TTL_MS) {
+      this.pendingModmailSessions.delete(userId);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  // Returns the id the page buttons of the search results refer to
+  public startTicketSearch(
+    userId: string,
+    filters: TicketSearchFilters
+  ): string {
+    const now = Date.now();
+    for (const [id, session] of this.ticketSearches) {
+      if (now - session.CreatedAt > SEARCH_SESSION_TTL_MS) {
+        this.ticketSearches.delete(id);
+      }
+    }
+
+    const id = randomUUID().slice(0, 8);
+    this.ticketSearches.set(id, {
+      UserId: userId,
+      Filters: filters,
+      CreatedAt: now,
+    });
+    return id;
+  }
+
+  public getTicketSearch(id: string): TicketSearchSession | undefined {
+    const session = this.ticketSearches.get(id);
+    if (!session || Date.now() - session.CreatedAt > SEARCH_SESSION_TTL_MS) {
+      return undefined;
+    }
+    return session;
+  }
+
+  // Called for every user message in a ticket channel and by the "Keep open" button
+  public recordActivity(channelId: string): void {
+    if (!this.ticketCache.getTicket(channelId)) return;
+
+    this.lastActivity.set(channelId, Date.now());
+    this.inactivityWarnings.delete(channelId);
+  }
+
+  // Re-renders every ticket panel, e.g. after categories were changed
+  public async refreshTicketMenus(): Promise<void> {
+    await this.syncTicketMenus();
+  }
+
+  // Posts a new panel and stores it, returns null if the message could not be sent
+  public async createTicketMenu(
+    menu: Omit<TicketMenuInput, "MessageId">
+  ): Promise<ITicketMenu | null> {
+    const channel = this.client.channels.cache.get(menu.ChannelId);
+    if (!channel || channel.type !== ChannelType.GuildText) {
+      return null;
+    }
+
+    const message = await channel.send(
+      this.renderTicketMenu({ ...menu, Id: "", MessageId: "" })
+    );
+
+    return this.getMenuRepository().create({ ...menu, MessageId: message.id });
+  }
+
+  // Edits the posted panel in place, or re-posts it when the message is gone
+  public async syncTicketMenu(menu: ITicketMenu): Promise<boolean> {
+    const channel = this.client.channels.cache.get(menu.ChannelId);
+    if (!channel || channel.type !== ChannelType.GuildText) {
+      this.logger.warn(
+        `❌ Channel ${menu.ChannelId} of ticket menu ${menu.Id} not found`
+      );
+      return false;
+    }
+
+    const content = this.renderTicketMenu(menu);
+    const existingMessage = await channel.messages
+      .fetch(menu.MessageId)
+      .catch(() => null);
+
+    if (existingMessage) {
+      await existingMessage.edit(content);
+      return true;
+    }
+
+    const message = await channel.send(content);
+    await this.getMenuRepository().update(menu.Id, { MessageId: message.id });
+    this.logger.info(
+      `✅ Ticket menu ${menu.Id} was missing and has been re-posted in ${channel.name}`
+    );
+    return true;
+  }
+
+  public async deleteTicketMenu(menu: ITicketMenu): Promise<void> {
+    const channel = this.client.channels.cache.get(menu.ChannelId);
+    if (channel && channel.type === ChannelType.GuildText) {
+      await channel.messages
+        .fetch(menu.MessageId)
+        .then((message) => message.delete())
+        .catch(() => null);
+    }
+
+    await this.getMenuRepository().delete(menu.Id);
+  }
+
+  private async syncTicketMenus(): Promise<void> {
+    try {
+      const menus = await this.getMenuRepository().findAll();
+      if (menus.length === 0) {
+        await this.migrateLegacyTicketMessage();
         return;
       }
 
-      // Create new ticket selection message
-      const embed = new EmbedBuilder()
-        .setTitle("🎫 Create a Support Ticket")
-        .setDescription(
-          "Select the type of support you need by clicking one of the buttons below.\n\n" +
-            "📩 **General Support** - General questions or help.\n" +
-            "🐛 **Bug Report** - Report a bug you've encountered.\n" +
-            "✨ **Feature Request** - Suggest a new feature or improvement.\n" +
-            "📝 **Application** - Apply for a position or role.\n" +
-            "❓ **Other** - Anything else that doesn't fit above."
-        )
-        .setColor(0x5865f2) // Discord blurple
-        .setFooter({ text: "Eterna - Support System" })
-        .setTimestamp();
+      for (const menu of menus) {
+        try {
+          await this.syncTicketMenu(menu);
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          this.logger.error(`❌ Error syncing ticket menu ${menu.Id}:`, err);
+        }
+      }
+
+      this.logger.info(`✅ Synced ${menus.length} ticket menus`);
+    } catch (error) {
+      this.logger.info("❌ Error setting up ticket menus:", error);
+    }
+  }
 
-      const row = this.createTicketButtons();
+  // Adopts the panel from the single-panel days, or posts a default one
+  private async migrateLegacyTicketMessage(): Promise<void> {
+    const messageChannel = this.client.channels.cache.get(
+      config.ticket.channelConfig.messageChannelId
+    ) as TextChannel;
 
-      await messageChannel.send({
-        embeds: [embed],
-        components: [row],
-      });
+    if (!messageChannel) {
+      this.logger.info(
+        `❌ Message channel ${config.ticket.channelConfig.messageChannelId} not found`
+      );
+      return;
+    }
+
+    const messages = await messageChannel.messages.fetch({ limit: 50 });
+    const existingMessage = messages.find(
+      (msg) =>
+        msg.author.id === this.client.user?.id &&
+        msg.embeds.length > 0 &&
+        msg.embeds[0].title === DEFAULT_MENU_TITLE
+    );
 
+    if (!existingMessage) {
+      await this.createTicketMenu({
+        ChannelId: messageChannel.id,
+        Title: null,
+        Description: null,
+        CategoryIds: [],
+        Style: "BUTTONS",
+      });
       this.logger.info("✅ Ticket selection message created successfully");
-    } catch (error) {
-      this.logger.info("❌ Error setting up ticket message:", error);
+      return;
     }
+
+    const menu = await this.getMenuRepository().create({
+      ChannelId: messageChannel.id,
+      MessageId: existingMessage.id,
+      Title: null,
+      Description: null,
+      CategoryIds: [],
+      Style: "BUTTONS",
+    });
+    await this.syncTicketMenu(menu);
+    this.logger.info("✅ Existing ticket selection message adopted as menu");
   }
 
-  // Create later an Dedicated Area to Create Buttons
-  private createTicketButtons(): ActionRowBuilder<ButtonBuilder> {
-    return new ActionRowBuilder<ButtonBuilder>().addComponents(
-      new ButtonBuilder()
-        .setCustomId("ticket_general")
-        .setLabel("General")
-        .setEmoji("📩")
-        .setStyle(ButtonStyle.Primary),
-      new ButtonBuilder()
-        .setCustomId("ticket_bug")
-        .setLabel("Bug")
-        .setEmoji("🐛")
-        .setStyle(ButtonStyle.Danger),
-      new ButtonBuilder()
-        .setCustomId("ticket_feature")
-        .setLabel("Feature")
-        .setEmoji("✨")
-        .setStyle(ButtonStyle.Secondary),
-      new ButtonBuilder()
-        .setCustomId("ticket_application")
-        .setLabel("Application")
-        .setEmoji("📝")
-        .setStyle(ButtonStyle.Success),
-      new ButtonBuilder()
-        .setCustomId("ticket_other")
-        .setLabel("Other")
-        .setEmoji("❓")
-        .setStyle(ButtonStyle.Secondary)
+  private getMenuCategories(menu: ITicketMenu): ITicketCategory[] {
+    const active = this.getCategoryRepository().getActive();
+    if (menu.CategoryIds.length === 0) {
+      return active;
+    }
+    return active.filter((category) => menu.CategoryIds.includes(category.Id));
+  }
+
+  private renderTicketMenu(menu: ITicketMenu): {
+    embeds: EmbedBuilder[];
+    components: ActionRowBuilder<ButtonBuilder | StringSelectMenuBuilder>[];
+  } {
+    const categories = this.getMenuCategories(menu);
+    const categoryLines = categories.map(
+      (category) =>
+        `${category.Emoji ?? "🎫"} **${category.Name}**` +
+        (category.Description ? ` - ${category.Description}` : "")
+    );
+
+    const instructions =
+      menu.Style === "SELECT"
+        ? "Select the type of support you need from the menu below."
+        : "Select the type of support you need by clicking one of the buttons below.";
+
+    const embed = new EmbedBuilder()
+      .setTitle(menu.Title ?? DEFAULT_MENU_TITLE)
+      .setDescription(
+        `${menu.Description ?? instructions}\n\n` +
+          (categoryLines.join("\n") || "No ticket categories are available.")
+      )
+      .setColor(0x5865f2) // Discord blurple
+      .setFooter({ text: "Eterna - Support System" })
+      .setTimestamp();
+
+    if (categories.length === 0) {
+      return { embeds: [embed], components: [] };
+    }
+
+    return {
+      embeds: [embed],
+      components:
+        menu.Style === "SELECT"
+          ? [this.createTicketSelectMenu(categories)]
+          : this.createTicketButtons(categories),
+    };
+  }
+
+  private createTicketSelectMenu(
+    categories: ITicketCategory[],
+    customId = "ticket_select"
+  ): ActionRowBuilder<StringSelectMenuBuilder> {
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(customId)
+      .setPlaceholder("Choose a ticket type...")
+      .addOptions(
+        categories.slice(0, 25).map((category) => {
+          const option = new StringSelectMenuOptionBuilder()
+            .setLabel(category.Name)
+            .setValue(category.Id);
+          if (category.Description) {
+            option.setDescription(category.Description.slice(0, 100));
+          }
+          if (category.Emoji) option.setEmoji(category.Emoji);
+          return option;
+        })
+      );
+
+    return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      select
     );
   }
+
+  // Create later an Dedicated Area to Create Buttons
+  private createTicketButtons(
+    categories: ITicketCategory[]
+  ): ActionRowBuilder<ButtonBuilder>[] {
+    const buttons = categories.map((category) => {
+      const button = new ButtonBuilder()
+        .setCustomId(`ticket_${category.Id}`)
+        .setLabel(category.Name)
+        .setStyle(ButtonStyle.Primary);
+      if (category.Emoji) button.setEmoji(category.Emoji);
+      return button;
+    });
+
+    // Discord allows 5 buttons per row and 5 rows per message
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+    for (let i = 0; i < buttons.length && rows.length < 5; i += 5) {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          buttons.slice(i, i + 5)
+        )
+      );
+    }
+    return rows;
+  }
 }
@@ -0,0 +1,112 @@
+import { randomUUID } from "node:crypto";
+import type {
+  PrismaClient,
+  TicketSnippet as TicketSnippetRecord,
+} from "../../../prisma/generated/prisma";
+import type { ITicketSnippet, TicketType } from "../../config";
+
+export type TicketSnippetInput = Omit<ITicketSnippet, "Id">;
+
+export class TicketSnippetRepository {
+  private readonly prisma: PrismaClient;
+
+  // Autocomplete queries snippets on every keystroke, so all rows are kept in memory
+  private snippets: Map<string, ITicketSnippet> = new Map();
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  public async load(): Promise<number> {
+    const records = await this.prisma.ticketSnippet.findMany({
+      orderBy: { name: "asc" },
+    });
+
+    this.snippets.clear();
+    for (const record of records) {
+      const snippet = this.toSnippet(record);
+      this.snippets.set(snippet.Id, snippet);
+    }
+
+    return this.snippets.size;
+  }
+
+  public getAll(): ITicketSnippet[] {
+    return Array.from(this.snippets.values()).sort((a, b) =>
+      a.Name.localeCompare(b.Name)
+    );
+  }
+
+  // Snippets without a category scope are available in every ticket
+  public getForType(type: TicketType): ITicketSnippet[] {
+    return this.getAll().filter(
+      (snippet) =>
+        snippet.CategoryIds.length === 0 || snippet.CategoryIds.includes(type)
+    );
+  }
+
+  // Names are unique and matched case-insensitively
+  public resolve(name: string): ITicketSnippet | undefined {
+    const normalized = name.trim().toLowerCase();
+    return this.getAll().find(
+      (snippet) => snippet.Name.toLowerCase() === normalized
+    );
+  }
+
+  public async create(input: TicketSnippetInput): Promise<ITicketSnippet> {
+    const record = await this.prisma.ticketSnippet.create({
+      data: {
+        id: randomUUID(),
+        name: input.Name,
+        content: input.Content,
+        embed: input.Embed,
+        title: input.Title,
+        categoryIds: input.CategoryIds,
+        createdBy: input.CreatedBy,
+        updatedAt: new Date(),
+      },
+    });
+
+    const snippet = this.toSnippet(record);
+    this.snippets.set(snippet.Id, snippet);
+    return snippet;
+  }
+
+  public async update(
+    id: string,
+    changes: Partial<Omit<TicketSnippetInput, "CreatedBy">>
+  ): Promise<ITicketSnippet> {
+    const record = await this.prisma.ticketSnippet.update({
+      where: { id },
+      data: {
+        name: changes.Name,
+        content: changes.Content,
+        embed: changes.Embed,
+        title: changes.Title,
+        categoryIds: changes.CategoryIds,
+        updatedAt: new Date(),
+      },
+    });
+
+    const snippet = this.toSnippet(record);
+    this.snippets.set(snippet.Id, snippet);
+    return snippet;
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.prisma.ticketSnippet.delete({ where: { id } });
+    this.snippets.delete(id);
+  }
+
+  private toSnippet(record: TicketSnippetRecord): ITicketSnippet {
+    return {
+      Id: record.id,
+      Name: record.name,
+      Content: record.content,
+      Embed: record.embed,
+      Title: record.title,
+      CategoryIds: [...record.categoryIds],
+      CreatedBy: record.createdBy,
+    };
+  }
+}
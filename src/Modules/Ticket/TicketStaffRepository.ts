@@ -0,0 +1,34 @@
+import type { PrismaClient } from "../../../prisma/generated/prisma";
+
+export class TicketStaffRepository {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Staff without a status row count as on duty
+  public async isOffDuty(userId: string): Promise<boolean> {
+    const status = await this.prisma.ticketStaffStatus.findUnique({
+      where: { userId },
+      select: { offDuty: true },
+    });
+    return status?.offDuty ?? false;
+  }
+
+  public async findOffDuty(userIds: string[]): Promise<Set<string>> {
+    const records = await this.prisma.ticketStaffStatus.findMany({
+      where: { userId: { in: userIds }, offDuty: true },
+      select: { userId: true },
+    });
+    return new Set(records.map((record) => record.userId));
+  }
+
+  public async setOffDuty(userId: string, offDuty: boolean): Promise<void> {
+    await this.prisma.ticketStaffStatus.upsert({
+      where: { userId },
+      create: { userId, offDuty, updatedAt: new Date() },
+      update: { offDuty, updatedAt: new Date() },
+    });
+  }
+}
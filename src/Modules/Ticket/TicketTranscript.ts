@@ -0,0 +1,354 @@
+import { AttachmentBuilder, type Message } from "discord.js";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import type { ITicket, ITicketNote } from "../../config";
+import type { TicketChannel } from "./TicketHandler";
+import {
+  archivedAttachmentKey,
+  type ArchivedAttachments,
+} from "./TicketAttachmentStore";
+
+// Upper bound so a runaway ticket cannot stall the close flow
+const MAX_TRANSCRIPT_MESSAGES = 5000;
+
+export interface TranscriptMessage {
+  id: string;
+  author: {
+    id: string;
+    username: string;
+    avatarUrl: string;
+    bot: boolean;
+  };
+  content: string;
+  createdAt: string;
+  editedAt: string | null;
+  attachments: Array<{
+    name: string;
+    url: string;
+    size: number;
+    contentType: string | null;
+    // Relative to the attachment storage, null when the copy failed or was skipped
+    archivedPath: string | null;
+  }>;
+  embeds: Array<{
+    title: string | null;
+    description: string | null;
+    url: string | null;
+    color: number | null;
+    fields: Array<{ name: string; value: string }>;
+  }>;
+}
+
+// html, text and json are the staff version including the internal notes
+export interface TicketTranscriptResult {
+  messageCount: number;
+  html: AttachmentBuilder;
+  text: AttachmentBuilder;
+  json: AttachmentBuilder;
+  publicHtml: AttachmentBuilder;
+  publicText: AttachmentBuilder;
+}
+
+export class TicketTranscriptGenerator {
+  private logger: Logger = LoggerFactory.create("TicketTranscript");
+
+  // The messages come from fetchMessages, archived attachments are referenced by their local copy
+  public generate(
+    channel: TicketChannel,
+    ticket: ITicket,
+    typeName: string,
+    fetchedMessages: TranscriptMessage[],
+    archivedAttachments: ArchivedAttachments,
+    notes: ITicketNote[] = []
+  ): TicketTranscriptResult {
+    const messages = fetchedMessages.map((message) => ({
+      ...message,
+      attachments: message.attachments.map((attachment, index) => ({
+        ...attachment,
+        archivedPath:
+          archivedAttachments.get(archivedAttachmentKey(message.id, index)) ??
+          null,
+      })),
+    }));
+    const baseName = `transcript-${channel.name}`;
+
+    this.logger.info(
+      `Generated transcript for ${channel.name} with ${messages.length} messages`
+    );
+
+    return {
+      messageCount: messages.length,
+      html: new AttachmentBuilder(
+        Buffer.from(
+          this.renderHtml(channel, ticket, typeName, messages, notes)
+        ),
+        { name: `${baseName}-staff.html` }
+      ),
+      text: new AttachmentBuilder(
+        Buffer.from(
+          this.renderText(channel, ticket, typeName, messages, notes)
+        ),
+        { name: `${baseName}-staff.txt` }
+      ),
+      publicHtml: new AttachmentBuilder(
+        Buffer.from(this.renderHtml(channel, ticket, typeName, messages, [])),
+        { name: `${baseName}.html` }
+      ),
+      publicText: new AttachmentBuilder(
+        Buffer.from(this.renderText(channel, ticket, typeName, messages, [])),
+        { name: `${baseName}.txt` }
+      ),
+      json: new AttachmentBuilder(
+        Buffer.from(
+          JSON.stringify(
+            {
+              ticket: {
+                id: ticket.Id,
+                channelId: ticket.ChannelId,
+                channelName: channel.name,
+                type: ticket.Type,
+                typeName,
+                createdBy: ticket.CreatedBy,
+                createdAt: ticket.CreatedAt.toISOString(),
+                closedBy: ticket.ClosedBy ?? null,
+                closedAt: ticket.ClosedAt?.toISOString() ?? null,
+                closeReason: ticket.CloseReason ?? null,
+                users: ticket.Users,
+              },
+              notes: notes.map((note) => ({
+                authorId: note.AuthorId,
+                content: note.Content,
+                createdAt: note.CreatedAt.toISOString(),
+              })),
+              messages,
+            },
+            null,
+            2
+          )
+        ),
+        { name: `${baseName}-staff.json` }
+      ),
+    };
+  }
+
+  // Pages backwards through the channel history and returns it oldest first
+  public async fetchMessages(
+    channel: TicketChannel
+  ): Promise<TranscriptMessage[]> {
+    const collected: Message[] = [];
+    let before: string | undefined;
+
+    while (collected.length < MAX_TRANSCRIPT_MESSAGES) {
+      const batch = await channel.messages.fetch({ limit: 100, before });
+      if (batch.size === 0) break;
+
+      collected.push(...batch.values());
+      before = batch.last()?.id;
+
+      if (batch.size < 100) break;
+    }
+
+    if (collected.length >= MAX_TRANSCRIPT_MESSAGES) {
+      this.logger.warn(
+        `Transcript for ${channel.name} was truncated at ${MAX_TRANSCRIPT_MESSAGES} messages`
+      );
+    }
+
+    return collected
+      .sort((a, b) => a.createdTimestamp - b.createdTimestamp)
+      .map((message) => this.toTranscriptMessage(message));
+  }
+
+  private toTranscriptMessage(message: Message): TranscriptMessage {
+    return {
+      id: message.id,
+      author: {
+        id: message.author.id,
+        username: message.author.tag,
+        avatarUrl: message.author.displayAvatarURL({ size: 64 }),
+        bot: message.author.bot,
+      },
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      attachments: message.attachments.map((attachment) => ({
+        name: attachment.name,
+        url: attachment.url,
+        size: attachment.size,
+        contentType: attachment.contentType,
+        archivedPath: null,
+      })),
+      embeds: message.embeds.map((embed) => ({
+        title: embed.title,
+        description: embed.description,
+        url: embed.url,
+        color: embed.color,
+        fields: embed.fields.map((field) => ({
+          name: field.name,
+          value: field.value,
+        })),
+      })),
+    };
+  }
+
+  private renderText(
+    channel: TicketChannel,
+    ticket: ITicket,
+    typeName: string,
+    messages: TranscriptMessage[],
+    notes: ITicketNote[]
+  ): string {
+    const lines = [
+      `Transcript of #${channel.name} (${typeName})`,
+      `Created by ${ticket.CreatedBy} at ${ticket.CreatedAt.toISOString()}`,
+      `Closed by ${ticket.ClosedBy ?? "unknown"} at ${
+        ticket.ClosedAt?.toISOString() ?? "unknown"
+      }`,
+      `Reason: ${ticket.CloseReason ?? "No reason provided"}`,
+      "",
+    ];
+
+    if (notes.length > 0) {
+      lines.push("Staff notes:");
+      for (const note of notes) {
+        lines.push(
+          `  [${note.CreatedAt.toISOString()}] ${note.AuthorId}: ${note.Content}`
+        );
+      }
+      lines.push("");
+    }
+
+    for (const message of messages) {
+      lines.push(
+        `[${message.createdAt}] ${message.author.username}: ${message.content}`
+      );
+      for (const embed of message.embeds) {
+        lines.push(
+          `  [Embed] ${embed.title ?? ""} ${embed.description ?? ""}`.trimEnd()
+        );
+        for (const field of embed.fields) {
+          lines.push(`    ${field.name}: ${field.value}`);
+        }
+      }
+      for (const attachment of message.attachments) {
+        lines.push(
+          `  [Attachment] ${attachment.name} - ${
+            attachment.archivedPath ?? attachment.url
+          }`
+        );
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  private renderHtml(
+    channel: TicketChannel,
+    ticket: ITicket,
+    typeName: string,
+    messages: TranscriptMessage[],
+    notes: ITicketNote[]
+  ): string {
+    const notesSection =
+      notes.length === 0
+        ? ""
+        : `
+  <section class="notes">
+    <h3>Staff notes</h3>${notes
+      .map(
+        (note) => `
+    <div class="note"><span class="time">${note.CreatedAt.toISOString()}</span> ${note.AuthorId}: ${this.formatContent(note.Content)}</div>`
+      )
+      .join("")}
+  </section>`;
+
+    const body = messages
+      .map((message) => {
+        const embeds = message.embeds
+          .map(
+            (embed) => `
+        <div class="embed" style="border-color: #${(embed.color ?? 0x5865f2)
+          .toString(16)
+          .padStart(6, "0")}">
+          ${embed.title ? `<div class="embed-title">${this.escape(embed.title)}</div>` : ""}
+          ${embed.description ? `<div>${this.formatContent(embed.description)}</div>` : ""}
+          ${embed.fields
+            .map(
+              (field) =>
+                `<div class="embed-field"><b>${this.escape(field.name)}</b><br>${this.formatContent(field.value)}</div>`
+            )
+            .join("")}
+        </div>`
+          )
+          .join("");
+
+        // Discord CDN links expire, the local copy wins whenever there is one
+        const attachments = message.attachments
+          .map(
+            (attachment) =>
+              attachment.archivedPath
+                ? `<div class="attachment">📎 ${this.escape(attachment.name)} (${Math.ceil(attachment.size / 1024)} KB) · <code>${this.escape(attachment.archivedPath)}</code></div>`
+                : `<div class="attachment">📎 <a href="${this.escape(attachment.url)}">${this.escape(attachment.name)}</a> (${Math.ceil(attachment.size / 1024)} KB)</div>`
+          )
+          .join("");
+
+        return `
+    <div class="message">
+      <img class="avatar" src="${this.escape(message.author.avatarUrl)}" alt="">
+      <div>
+        <div><span class="author">${this.escape(message.author.username)}</span>${
+          message.author.bot ? ' <span class="bot">BOT</span>' : ""
+        } <span class="time">${message.createdAt}${message.editedAt ? " (edited)" : ""}</span></div>
+        <div>${this.formatContent(message.content)}</div>${embeds}${attachments}
+      </div>
+    </div>`;
+      })
+      .join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Transcript #${this.escape(channel.name)}</title>
+  <style>
+    body { background: #313338; color: #dbdee1; font-family: sans-serif; margin: 0; padding: 24px; }
+    header { border-bottom: 1px solid #4e5058; margin-bottom: 16px; padding-bottom: 16px; }
+    a { color: #00a8fc; }
+    .message { display: flex; gap: 12px; margin-bottom: 16px; }
+    .avatar { border-radius: 50%; height: 40px; width: 40px; }
+    .author { color: #f2f3f5; font-weight: bold; }
+    .bot { background: #5865f2; border-radius: 3px; color: #fff; font-size: 10px; padding: 1px 4px; }
+    .time { color: #949ba4; font-size: 12px; }
+    .embed { background: #2b2d31; border-left: 4px solid; border-radius: 4px; margin-top: 4px; max-width: 520px; padding: 8px 12px; }
+    .embed-title { color: #f2f3f5; font-weight: bold; margin-bottom: 4px; }
+    .embed-field { margin-top: 6px; }
+    .attachment { margin-top: 4px; }
+    .notes { background: #2b2d31; border-left: 4px solid #f1c40f; border-radius: 4px; margin-bottom: 16px; padding: 8px 12px; }
+    .note { margin-top: 4px; }
+  </style>
+</head>
+<body>
+  <header>
+    <h2>#${this.escape(channel.name)} · ${this.escape(typeName)}</h2>
+    <div>Created by ${ticket.CreatedBy} at ${ticket.CreatedAt.toISOString()}</div>
+    <div>Closed by ${ticket.ClosedBy ?? "unknown"} at ${ticket.ClosedAt?.toISOString() ?? "unknown"}</div>
+    <div>Reason: ${this.escape(ticket.CloseReason ?? "No reason provided")}</div>
+    <div>${messages.length} messages</div>
+  </header>${notesSection}${body}
+</body>
+</html>`;
+  }
+
+  private formatContent(content: string): string {
+    return this.escape(content).replace(/\n/g, "<br>");
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+}
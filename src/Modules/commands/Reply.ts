@@ -0,0 +1,118 @@
+import type {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  GuildMember,
+} from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import { TicketHandler } from "../ticket/TicketHandler";
+
+@Command({
+  name: "reply",
+  description: "Send a canned response in this ticket",
+  guildOnly: true,
+  options: [
+    {
+      name: "snippet",
+      description: "Snippet to send",
+      type: "string",
+      required: true,
+      autocomplete: true,
+    },
+  ],
+})
+export class ReplyCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("ReplyCommand");
+  private ticketHandler: TicketHandler | null = null;
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    this.ticketHandler ??= new TicketHandler();
+
+    await this.deferReply(interaction, true);
+
+    const ticket = await ticketService
+      .getTicketRepository()
+      .findByChannelId(interaction.channelId);
+
+    if (!ticket) {
+      await this.reply(
+        interaction,
+        "❌ This command can only be used inside a ticket."
+      );
+      return;
+    }
+
+    const member = interaction.member as GuildMember;
+    if (!this.ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(interaction, "❌ Only staff members can send snippets.");
+      return;
+    }
+
+    const snippet = ticketService
+      .getSnippetRepository()
+      .resolve(interaction.options.getString("snippet", true));
+
+    if (!snippet) {
+      await this.reply(interaction, "❌ Snippet not found.");
+      return;
+    }
+
+    const result = await this.ticketHandler.sendSnippet(
+      ticket.ChannelId,
+      snippet,
+      interaction.user
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? `✅ Sent snippet **${snippet.Name}**.`
+        : `❌ ${result.message}`
+    );
+  }
+
+  // Only snippets scoped to the type of the current ticket are suggested
+  public async autocomplete(
+    interaction: AutocompleteInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    const ticket = ticketService
+      ?.getTicketCache()
+      .getTicket(interaction.channelId);
+
+    if (!ticketService || !ticket) {
+      await interaction.respond([]);
+      return;
+    }
+
+    const query = interaction.options.getFocused().toLowerCase();
+
+    await interaction.respond(
+      ticketService
+        .getSnippetRepository()
+        .getForType(ticket.Type)
+        .filter((snippet) => snippet.Name.toLowerCase().includes(query))
+        .slice(0, 25)
+        .map((snippet) => ({ name: snippet.Name, value: snippet.Name }))
+    );
+  }
+}
@@ -0,0 +1,1047 @@
+import {
+  EmbedBuilder,
+  type ChatInputCommandInteraction,
+  type GuildMember,
+} from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import { TicketHandler } from "../ticket/TicketHandler";
+import type { TicketSearchFilters } from "../ticket/TicketRepository";
+import type { ITicket, TicketStatus } from "../../config";
+
+const EMBED_DESCRIPTION_LIMIT = 4096;
+// Kept free for the "…and N more" note of the ticket list
+const LIST_RESERVED_CHARS = 50;
+
+@Command({
+  name: "ticket",
+  description: "Open and manage support tickets",
+  guildOnly: true,
+  subcommands: [
+    {
+      name: "open",
+      description: "Open a new ticket",
+      options: [
+        {
+          name: "category",
+          description: "Name of the ticket category",
+          type: "string",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "close",
+      description: "Close the ticket in this channel",
+      options: [
+        {
+          name: "reason",
+          description: "Reason for closing",
+          type: "string",
+          maxLength: 500,
+        },
+      ],
+    },
+    {
+      name: "add",
+      description: "Add a user to the ticket in this channel",
+      options: [
+        {
+          name: "user",
+          description: "The user to add",
+          type: "user",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "remove",
+      description: "Remove a user from the ticket in this channel",
+      options: [
+        {
+          name: "user",
+          description: "The user to remove",
+          type: "user",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "rename",
+      description: "Rename the ticket channel",
+      options: [
+        {
+          name: "name",
+          description: "New channel name",
+          type: "string",
+          required: true,
+          maxLength: 100,
+        },
+      ],
+    },
+    {
+      name: "claim",
+      description: "Claim the ticket in this channel",
+    },
+    {
+      name: "note",
+      description: "Add a staff-only note to the ticket in this channel",
+      options: [
+        {
+          name: "text",
+          description: "The note, never shown to the ticket creator",
+          type: "string",
+          required: true,
+          maxLength: 1000,
+        },
+      ],
+    },
+    {
+      name: "move",
+      description: "Change the type of the ticket in this channel",
+      options: [
+        {
+          name: "category",
+          description: "Name of the new ticket category",
+          type: "string",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "merge",
+      description: "Merge the ticket in this channel into another ticket",
+      options: [
+        {
+          name: "target",
+          description: "Channel of the ticket that is kept",
+          type: "channel",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "duty",
+      description: "Set whether new tickets may be auto-assigned to you",
+      options: [
+        {
+          name: "available",
+          description: "False takes you out of the auto-assignment",
+          type: "boolean",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "list",
+      description: "List open tickets",
+      options: [
+        {
+          name: "user",
+          description: "Only show tickets this user takes part in",
+          type: "user",
+        },
+      ],
+    },
+    {
+      name: "info",
+      description: "Show details about the ticket in this channel",
+    },
+    {
+      name: "search",
+      description: "Search open and archived tickets",
+      options: [
+        {
+          name: "user",
+          description: "Creator or participant of the ticket",
+          type: "user",
+        },
+        {
+          name: "category",
+          description: "Name of the ticket category",
+          type: "string",
+        },
+        {
+          name: "handler",
+          description: "Staff member handling the ticket",
+          type: "user",
+        },
+        {
+          name: "status",
+          description: "Current status of the ticket",
+          type: "string",
+          choices: [
+            { name: "Open", value: "OPEN" },
+            { name: "Pending", value: "PENDING" },
+            { name: "Closed", value: "CLOSED" },
+            { name: "Archived", value: "ARCHIVED" },
+          ],
+        },
+        {
+          name: "open",
+          description: "Only open (true) or only closed (false) tickets",
+          type: "boolean",
+        },
+        {
+          name: "reason",
+          description: "Keyword in the close reason",
+          type: "string",
+          maxLength: 100,
+        },
+        {
+          name: "text",
+          description: "Text in the subject, intake answers or messages",
+          type: "string",
+          maxLength: 100,
+        },
+        {
+          name: "from",
+          description: "Created on or after this day (YYYY-MM-DD)",
+          type: "string",
+        },
+        {
+          name: "to",
+          description: "Created on or before this day (YYYY-MM-DD)",
+          type: "string",
+        },
+      ],
+    },
+    {
+      name: "reply",
+      description: "Answer the creator of this modmail ticket by DM",
+      options: [
+        {
+          name: "message",
+          description: "The answer sent to the user",
+          type: "string",
+          required: true,
+          maxLength: 4000,
+        },
+        {
+          name: "anonymous",
+          description: "Hide your name from the user",
+          type: "boolean",
+        },
+        {
+          name: "attachment",
+          description: "File sent along with the answer",
+          type: "attachment",
+        },
+      ],
+    },
+  ],
+  subcommandGroups: [
+    {
+      name: "blacklist",
+      description: "Block users from opening tickets",
+      subcommands: [
+        {
+          name: "add",
+          description: "Block a user from opening tickets",
+          options: [
+            {
+              name: "user",
+              description: "The user to block",
+              type: "user",
+              required: true,
+            },
+            {
+              name: "reason",
+              description: "Why the user is blocked, shown to them",
+              type: "string",
+              required: true,
+              maxLength: 500,
+            },
+            {
+              name: "days",
+              description: "Lift the block after this many days",
+              type: "integer",
+              minValue: 1,
+              maxValue: 365,
+            },
+          ],
+        },
+        {
+          name: "remove",
+          description: "Lift the block of a user",
+          options: [
+            {
+              name: "user",
+              description: "The user to unblock",
+              type: "user",
+              required: true,
+            },
+          ],
+        },
+        {
+          name: "list",
+          description: "List all blocked users",
+        },
+      ],
+    },
+  ],
+})
+export class TicketCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketCommand");
+  private ticketHandler: TicketHandler | null = null;
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    this.ticketHandler ??= new TicketHandler();
+
+    const subcommand = interaction.options.getSubcommand();
+
+    if (interaction.options.getSubcommandGroup() === "blacklist") {
+      await this.deferReply(interaction, true);
+      await this.handleBlacklist(
+        interaction,
+        ticketService,
+        this.ticketHandler,
+        subcommand
+      );
+      return;
+    }
+
+    // Opening may answer with the intake form modal, which cannot follow a deferred reply
+    if (subcommand === "open") {
+      await this.handleOpen(interaction, ticketService, this.ticketHandler);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    switch (subcommand) {
+      case "close":
+        await this.handleClose(interaction, ticketService, this.ticketHandler);
+        break;
+      case "add":
+      case "remove":
+        await this.handleMembership(
+          interaction,
+          ticketService,
+          this.ticketHandler,
+          subcommand
+        );
+        break;
+      case "rename":
+        await this.handleRename(interaction, ticketService, this.ticketHandler);
+        break;
+      case "claim":
+        await this.handleClaim(interaction, ticketService, this.ticketHandler);
+        break;
+      case "note":
+        await this.handleNote(interaction, ticketService, this.ticketHandler);
+        break;
+      case "move":
+        await this.handleMove(interaction, ticketService, this.ticketHandler);
+        break;
+      case "merge":
+        await this.handleMerge(interaction, ticketService, this.ticketHandler);
+        break;
+      case "duty":
+        await this.handleDuty(interaction, ticketService, this.ticketHandler);
+        break;
+      case "list":
+        await this.handleList(interaction, ticketService, this.ticketHandler);
+        break;
+      case "info":
+        await this.handleInfo(interaction, ticketService, this.ticketHandler);
+        break;
+      case "search":
+        await this.handleSearch(interaction, ticketService, this.ticketHandler);
+        break;
+      case "reply":
+        await this.handleReply(interaction, ticketService, this.ticketHandler);
+        break;
+      default:
+        await this.reply(interaction, "❌ Unknown subcommand.", true);
+        return;
+    }
+  }
+
+  private async handleOpen(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const category = ticketService
+      .getCategoryRepository()
+      .resolve(interaction.options.getString("category", true));
+
+    if (!category || !category.Active) {
+      await this.reply(interaction, "❌ Ticket category not found.", true);
+      return;
+    }
+
+    if (category.Questions.length > 0) {
+      const validation = await ticketHandler.validateTicketCreation(
+        interaction.user.id,
+        category.Id,
+        interaction.guild!
+      );
+      if (!validation.success) {
+        await this.reply(interaction, `❌ ${validation.message}`, true);
+        return;
+      }
+
+      await interaction.showModal(ticketHandler.createIntakeModal(category));
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const result = await ticketHandler.createTicket(
+      interaction.user.id,
+      category.Id,
+      interaction.guild!
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? `✅ Your **${category.Name}** ticket has been created: ${result.channel}`
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleClose(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    // Same rule as the close button: creator or staff
+    const member = interaction.member as GuildMember;
+    if (
+      ticket.CreatedBy !== interaction.user.id &&
+      !ticketHandler.isStaff(member, ticket.Type)
+    ) {
+      await this.reply(
+        interaction,
+        "❌ You don't have permission to close this ticket."
+      );
+      return;
+    }
+
+    const result = await ticketHandler.closeTicket(
+      ticket.ChannelId,
+      interaction.user.id,
+      interaction.options.getString("reason") || "No reason provided"
+    );
+
+    await this.reply(
+      interaction,
+      result.success ? "✅ Ticket is being closed..." : `❌ ${result.message}`
+    );
+  }
+
+  private async handleMembership(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler,
+    action: "add" | "remove"
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(
+        interaction,
+        action === "add"
+          ? "❌ Only staff members can add users to tickets."
+          : "❌ Only staff members can remove users from tickets."
+      );
+      return;
+    }
+
+    const user = interaction.options.getUser("user", true);
+    const result =
+      action === "add"
+        ? await ticketHandler.addUserToTicket(
+            ticket.ChannelId,
+            user.id,
+            interaction.user.id
+          )
+        : await ticketHandler.removeUserFromTicket(
+            ticket.ChannelId,
+            user.id,
+            interaction.user.id
+          );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? action === "add"
+          ? `✅ Successfully added ${user} to the ticket.`
+          : `✅ Successfully removed ${user} from the ticket.`
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleRename(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(interaction, "❌ Only staff members can rename tickets.");
+      return;
+    }
+
+    const result = await ticketHandler.renameTicket(
+      ticket.ChannelId,
+      interaction.options.getString("name", true),
+      interaction.user.id
+    );
+
+    await this.reply(
+      interaction,
+      result.success ? "✅ The ticket has been renamed." : `❌ ${result.message}`
+    );
+  }
+
+  private async handleClaim(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(interaction, "❌ Only staff members can claim tickets.");
+      return;
+    }
+
+    const result = await ticketHandler.claimTicket(
+      ticket.ChannelId,
+      interaction.user.id
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? "✅ You are now handling this ticket."
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleNote(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(interaction, "❌ Only staff members can add notes.");
+      return;
+    }
+
+    const result = await ticketHandler.addNote(
+      ticket.ChannelId,
+      interaction.user.id,
+      interaction.options.getString("text", true)
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? "✅ Note saved. Use the **Notes** button to see all notes."
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleMove(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(
+        interaction,
+        "❌ Only staff members can change the ticket type."
+      );
+      return;
+    }
+
+    const category = ticketService
+      .getCategoryRepository()
+      .resolve(interaction.options.getString("category", true));
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    const result = await ticketHandler.changeTicketType(
+      ticket.ChannelId,
+      category.Id,
+      interaction.user.id
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? `✅ This is now a **${category.Name}** ticket.`
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleMerge(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(interaction, "❌ Only staff members can merge tickets.");
+      return;
+    }
+
+    const target = interaction.options.getChannel("target", true);
+    const targetTicket = await ticketService
+      .getTicketRepository()
+      .findByChannelId(target.id);
+    if (!targetTicket) {
+      await this.reply(interaction, "❌ The target channel is not a ticket.");
+      return;
+    }
+
+    // Staff of one category must not be able to push tickets into another
+    if (!ticketHandler.isStaff(member, targetTicket.Type)) {
+      await this.reply(
+        interaction,
+        "❌ You are not staff of the ticket you are merging into."
+      );
+      return;
+    }
+
+    const result = await ticketHandler.mergeTicket(
+      ticket.ChannelId,
+      target.id,
+      interaction.user.id
+    );
+
+    await this.reply(
+      interaction,
+      result.success
+        ? `✅ Merged this ticket into ${target}.`
+        : `❌ ${result.message}`
+    );
+  }
+
+  private async handleDuty(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isAnyStaff(member)) {
+      await this.reply(
+        interaction,
+        "❌ Only staff members can change their duty status."
+      );
+      return;
+    }
+
+    const available = interaction.options.getBoolean("available", true);
+    await ticketService
+      .getStaffRepository()
+      .setOffDuty(interaction.user.id, !available);
+
+    this.logger.info(
+      `${interaction.user.tag} is now ${available ? "on" : "off"} duty`
+    );
+    await this.reply(
+      interaction,
+      available
+        ? "✅ You are on duty, new tickets may be assigned to you."
+        : "✅ You are off duty and will not be assigned new tickets."
+    );
+  }
+
+  private async handleList(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const member = interaction.member as GuildMember;
+    const isStaff = ticketHandler.isAnyStaff(member);
+    const user = interaction.options.getUser("user");
+
+    // Members may only list their own tickets
+    if (!isStaff && user && user.id !== interaction.user.id) {
+      await this.reply(interaction, "❌ You can only list your own tickets.");
+      return;
+    }
+
+    const ticketCache = ticketService.getTicketCache();
+    const userId = user?.id ?? (isStaff ? null : interaction.user.id);
+    const tickets = (
+      userId
+        ? ticketCache.getTicketsByUser(userId)
+        : ticketCache.getAllTickets()
+    )
+      .filter((ticket) => !ticket.Closed)
+      .sort((a, b) => a.CreatedAt.getTime() - b.CreatedAt.getTime());
+
+    if (tickets.length === 0) {
+      await this.reply(interaction, "There are no open tickets.");
+      return;
+    }
+
+    const lines = tickets.map(
+      (ticket) =>
+        `<#${ticket.ChannelId}> · ${
+          ticketHandler.getCategory(ticket.Type)?.Name ?? ticket.Type
+        } · ${ticket.Status.toLowerCase()} · <@${ticket.CreatedBy}>` +
+        (ticket.HandledBy ? ` · handled by <@${ticket.HandledBy}>` : "")
+    );
+
+    // Whole lines only, a cut off channel mention would render as raw text
+    let description = "";
+    let listed = 0;
+    for (const line of lines) {
+      const next = description ? `${description}\n${line}` : line;
+      if (next.length > EMBED_DESCRIPTION_LIMIT - LIST_RESERVED_CHARS) break;
+      description = next;
+      listed++;
+    }
+
+    const hidden = tickets.length - listed;
+    const embed = new EmbedBuilder()
+      .setTitle(`🎫 Open Tickets (${tickets.length})`)
+      .setDescription(
+        hidden > 0 ? `${description}\n…and ${hidden} more tickets` : description
+      )
+      .setColor(0x3498db)
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+
+  private async handleSearch(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isAnyStaff(member)) {
+      await this.reply(interaction, "❌ Only staff members can search tickets.");
+      return;
+    }
+
+    const filters: TicketSearchFilters = {};
+
+    const user = interaction.options.getUser("user");
+    if (user) filters.UserId = user.id;
+
+    const handler = interaction.options.getUser("handler");
+    if (handler) filters.HandlerId = handler.id;
+
+    const categoryQuery = interaction.options.getString("category");
+    if (categoryQuery) {
+      const category = ticketService
+        .getCategoryRepository()
+        .resolve(categoryQuery);
+      if (!category) {
+        await this.reply(interaction, "❌ Ticket category not found.");
+        return;
+      }
+      filters.Type = category.Id;
+    }
+
+    const status = interaction.options.getString("status");
+    if (status) filters.Status = status as TicketStatus;
+
+    const open = interaction.options.getBoolean("open");
+    if (open !== null) filters.IsOpen = open;
+
+    const reason = interaction.options.getString("reason");
+    if (reason) filters.CloseReason = reason;
+
+    const text = interaction.options.getString("text");
+    if (text) filters.Text = text;
+
+    const from = interaction.options.getString("from");
+    const to = interaction.options.getString("to");
+    const createdAfter = from ? this.parseDay(from) : undefined;
+    const createdBefore = to ? this.parseDay(to) : undefined;
+    if (createdAfter === null || createdBefore === null) {
+      await this.reply(interaction, "❌ Dates have to be given as YYYY-MM-DD.");
+      return;
+    }
+    filters.CreatedAfter = createdAfter;
+    // The whole "to" day is included
+    filters.CreatedBefore = createdBefore
+      ? new Date(createdBefore.getTime() + 24 * 60 * 60 * 1000 - 1)
+      : undefined;
+
+    const searchId = ticketService.startTicketSearch(
+      interaction.user.id,
+      filters
+    );
+    await interaction.editReply(
+      await ticketHandler.createSearchPage(searchId, filters, 0)
+    );
+  }
+
+  // Start of the given UTC day, null if the input is not a valid date
+  private parseDay(input: string): Date | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.trim())) return null;
+
+    const date = new Date(`${input.trim()}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private async handleInfo(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (
+      !ticket.Users.includes(interaction.user.id) &&
+      !ticketHandler.isStaff(member, ticket.Type)
+    ) {
+      await this.reply(
+        interaction,
+        "❌ You don't have permission to view this ticket."
+      );
+      return;
+    }
+
+    const timestamp = (date: Date) =>
+      `<t:${Math.floor(date.getTime() / 1000)}:f>`;
+
+    const embed = new EmbedBuilder()
+      .setTitle("🎫 Ticket Info")
+      .addFields(
+        {
+          name: "Category",
+          value: ticketHandler.getCategory(ticket.Type)?.Name ?? ticket.Type,
+          inline: true,
+        },
+        { name: "Status", value: ticket.Status.toLowerCase(), inline: true },
+        {
+          name: "Handler",
+          value: ticket.HandledBy ? `<@${ticket.HandledBy}>` : "Unclaimed",
+          inline: true,
+        },
+        { name: "Created By", value: `<@${ticket.CreatedBy}>`, inline: true },
+        {
+          name: "Created At",
+          value: timestamp(ticket.CreatedAt),
+          inline: true,
+        },
+        {
+          name: "First Response",
+          value: ticket.FirstResponseAt
+            ? timestamp(ticket.FirstResponseAt)
+            : "None yet",
+          inline: true,
+        },
+        {
+          name: "Participants",
+          value: ticket.Users.map((id) => `<@${id}>`)
+            .join(", ")
+            .slice(0, 1024),
+        }
+      )
+      .setColor(0x3498db)
+      .setFooter({ text: `Ticket ${ticket.Id}` })
+      .setTimestamp();
+
+    if (ticket.Subject) {
+      embed.addFields({ name: "Subject", value: ticket.Subject });
+    }
+
+    if (ticket.MergedInto) {
+      const target = await ticketService
+        .getTicketRepository()
+        .findById(ticket.MergedInto);
+      embed.addFields({
+        name: "Merged Into",
+        value: target ? `<#${target.ChannelId}>` : ticket.MergedInto,
+      });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+
+  private async handleReply(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler
+  ): Promise<void> {
+    const ticket = await this.getChannelTicket(interaction, ticketService);
+    if (!ticket) return;
+
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isStaff(member, ticket.Type)) {
+      await this.reply(
+        interaction,
+        "❌ Only staff members can answer modmail tickets."
+      );
+      return;
+    }
+
+    const attachment = interaction.options.getAttachment("attachment");
+    const result = await ticketHandler.replyToModmail(
+      ticket.ChannelId,
+      interaction.user,
+      interaction.options.getString("message", true),
+      attachment ? [{ url: attachment.url, name: attachment.name }] : [],
+      interaction.options.getBoolean("anonymous") ?? false
+    );
+
+    if (result.success) {
+      ticketService.recordActivity(ticket.ChannelId);
+    }
+
+    await this.reply(
+      interaction,
+      result.success ? "✅ Your answer has been sent." : `❌ ${result.message}`
+    );
+  }
+
+  private async handleBlacklist(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService,
+    ticketHandler: TicketHandler,
+    subcommand: string
+  ): Promise<void> {
+    const member = interaction.member as GuildMember;
+    if (!ticketHandler.isModerator(member)) {
+      await this.reply(
+        interaction,
+        "❌ Only moderators can manage the ticket blacklist."
+      );
+      return;
+    }
+
+    const blacklistRepository = ticketService.getBlacklistRepository();
+
+    switch (subcommand) {
+      case "add": {
+        const user = interaction.options.getUser("user", true);
+        const days = interaction.options.getInteger("days");
+        const entry = await blacklistRepository.add({
+          UserId: user.id,
+          Reason: interaction.options.getString("reason", true),
+          ModeratorId: interaction.user.id,
+          ExpiresAt: days
+            ? new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+            : null,
+        });
+
+        this.logger.info(
+          `${user.tag} blacklisted from tickets by ${interaction.user.tag}`
+        );
+        await this.reply(
+          interaction,
+          `✅ ${user} can no longer open tickets ${
+            entry.ExpiresAt
+              ? `until <t:${Math.floor(entry.ExpiresAt.getTime() / 1000)}:f>`
+              : "until the block is lifted"
+          }.`
+        );
+        break;
+      }
+      case "remove": {
+        const user = interaction.options.getUser("user", true);
+        if (!(await blacklistRepository.remove(user.id))) {
+          await this.reply(interaction, `❌ ${user} is not blacklisted.`);
+          return;
+        }
+
+        this.logger.info(
+          `${user.tag} removed from the ticket blacklist by ${interaction.user.tag}`
+        );
+        await this.reply(interaction, `✅ ${user} can open tickets again.`);
+        break;
+      }
+      case "list": {
+        const entries = await blacklistRepository.findAll();
+        if (entries.length === 0) {
+          await this.reply(interaction, "Nobody is blacklisted.");
+          return;
+        }
+
+        const lines = entries.map(
+          (entry) =>
+            `<@${entry.UserId}> · by <@${entry.ModeratorId}> · ${
+              entry.ExpiresAt
+                ? `expires <t:${Math.floor(entry.ExpiresAt.getTime() / 1000)}:R>`
+                : "permanent"
+            }\n> ${entry.Reason}`
+        );
+
+        const embed = new EmbedBuilder()
+          .setTitle(`🚫 Ticket Blacklist (${entries.length})`)
+          .setDescription(lines.join("\n").slice(0, 4096))
+          .setColor(0xe74c3c)
+          .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+        break;
+      }
+      default:
+        await this.reply(interaction, "❌ Unknown subcommand.", true);
+    }
+  }
+
+  private async getChannelTicket(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<ITicket | null> {
+    const ticket = await ticketService
+      .getTicketRepository()
+      .findByChannelId(interaction.channelId);
+
+    if (!ticket) {
+      await this.reply(
+        interaction,
+        "❌ This command can only be used inside a ticket."
+      );
+      return null;
+    }
+
+    return ticket;
+  }
+}
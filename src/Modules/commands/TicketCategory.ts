@@ -0,0 +1,703 @@
+import { ChannelType, type ChatInputCommandInteraction } from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import {
+  MAX_TICKET_QUESTIONS,
+  type TicketCategoryInput,
+} from "../ticket/TicketCategoryRepository";
+import type { ITicketCategory } from "../../config";
+
+// Discord limits a message to 5 rows of 5 buttons
+const MAX_ACTIVE_CATEGORIES = 25;
+
+@Command({
+  name: "ticket-category",
+  description: "Manage ticket categories",
+  permissions: ["ManageChannels"],
+  guildOnly: true,
+  subcommands: [
+    {
+      name: "create",
+      description: "Create a new ticket category",
+      options: [
+        {
+          name: "name",
+          description: "Name shown on the ticket panel",
+          type: "string",
+          required: true,
+          maxLength: 80,
+        },
+        {
+          name: "category",
+          description: "Discord category new ticket channels are created in",
+          type: "channel",
+          required: true,
+        },
+        {
+          name: "emoji",
+          description: "Emoji shown on the panel button",
+          type: "string",
+        },
+        {
+          name: "description",
+          description: "Short description shown on the ticket panel",
+          type: "string",
+          maxLength: 200,
+        },
+        {
+          name: "default-message",
+          description: "Message posted when a ticket of this category opens",
+          type: "string",
+          maxLength: 1000,
+        },
+        {
+          name: "color",
+          description: "Embed color as hex, e.g. #2ecc71",
+          type: "string",
+        },
+        {
+          name: "support-roles",
+          description: "Roles that handle this category (mentions or ids)",
+          type: "string",
+        },
+        {
+          name: "first-response-target",
+          description: "SLA: minutes until staff should first reply, 0 removes it",
+          type: "integer",
+          minValue: 0,
+        },
+        {
+          name: "resolution-target",
+          description: "SLA: minutes until the ticket should be closed, 0 removes it",
+          type: "integer",
+          minValue: 0,
+        },
+        {
+          name: "max-open",
+          description: "Open tickets per user in this category, 0 uses the default",
+          type: "integer",
+          minValue: 0,
+          maxValue: 25,
+        },
+        {
+          name: "thread-channel",
+          description: "Open tickets as private threads in this text channel",
+          type: "channel",
+        },
+      ],
+    },
+    {
+      name: "edit",
+      description: "Edit an existing ticket category",
+      options: [
+        {
+          name: "category",
+          description: "Name or id of the ticket category",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "name",
+          description: "New name shown on the ticket panel",
+          type: "string",
+          maxLength: 80,
+        },
+        {
+          name: "discord-category",
+          description: "Discord category new ticket channels are created in",
+          type: "channel",
+        },
+        {
+          name: "emoji",
+          description: "Emoji shown on the panel button",
+          type: "string",
+        },
+        {
+          name: "description",
+          description: "Short description shown on the ticket panel",
+          type: "string",
+          maxLength: 200,
+        },
+        {
+          name: "default-message",
+          description: "Message posted when a ticket of this category opens",
+          type: "string",
+          maxLength: 1000,
+        },
+        {
+          name: "color",
+          description: "Embed color as hex, e.g. #2ecc71",
+          type: "string",
+        },
+        {
+          name: "support-roles",
+          description: "Roles that handle this category (mentions or ids)",
+          type: "string",
+        },
+        {
+          name: "first-response-target",
+          description: "SLA: minutes until staff should first reply, 0 removes it",
+          type: "integer",
+          minValue: 0,
+        },
+        {
+          name: "resolution-target",
+          description: "SLA: minutes until the ticket should be closed, 0 removes it",
+          type: "integer",
+          minValue: 0,
+        },
+        {
+          name: "max-open",
+          description: "Open tickets per user in this category, 0 uses the default",
+          type: "integer",
+          minValue: 0,
+          maxValue: 25,
+        },
+        {
+          name: "thread-channel",
+          description: "Open tickets as private threads in this text channel",
+          type: "channel",
+        },
+        {
+          name: "threads",
+          description: "Set to false to open ticket channels again instead of threads",
+          type: "boolean",
+        },
+        {
+          name: "active",
+          description: "Whether the category is offered on the ticket panel",
+          type: "boolean",
+        },
+      ],
+    },
+    {
+      name: "disable",
+      description: "Remove a ticket category from the ticket panel",
+      options: [
+        {
+          name: "category",
+          description: "Name or id of the ticket category",
+          type: "string",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "reorder",
+      description: "Move a ticket category to another position on the panel",
+      options: [
+        {
+          name: "category",
+          description: "Name or id of the ticket category",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "position",
+          description: "New position, starting at 1",
+          type: "integer",
+          required: true,
+          minValue: 1,
+        },
+      ],
+    },
+    {
+      name: "question-add",
+      description: "Add a question to the intake form of a ticket category",
+      options: [
+        {
+          name: "category",
+          description: "Name or id of the ticket category",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "label",
+          description: "The question shown in the form",
+          type: "string",
+          required: true,
+          maxLength: 45,
+        },
+        {
+          name: "style",
+          description: "Size of the answer field",
+          type: "string",
+          choices: [
+            { name: "Short", value: "SHORT" },
+            { name: "Paragraph", value: "PARAGRAPH" },
+          ],
+        },
+        {
+          name: "required",
+          description: "Whether an answer is required (default true)",
+          type: "boolean",
+        },
+        {
+          name: "placeholder",
+          description: "Example text shown in the empty answer field",
+          type: "string",
+          maxLength: 100,
+        },
+        {
+          name: "min-length",
+          description: "Minimum answer length",
+          type: "integer",
+          minValue: 1,
+          maxValue: 4000,
+        },
+        {
+          name: "max-length",
+          description: "Maximum answer length",
+          type: "integer",
+          minValue: 1,
+          maxValue: 4000,
+        },
+      ],
+    },
+    {
+      name: "question-remove",
+      description: "Remove a question from the intake form of a ticket category",
+      options: [
+        {
+          name: "category",
+          description: "Name or id of the ticket category",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "position",
+          description: "Position of the question, starting at 1",
+          type: "integer",
+          required: true,
+          minValue: 1,
+        },
+      ],
+    },
+  ],
+})
+export class TicketCategoryCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketCategoryCommand");
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const subcommand = interaction.options.getSubcommand();
+    switch (subcommand) {
+      case "create":
+        await this.handleCreate(interaction, ticketService);
+        break;
+      case "edit":
+        await this.handleEdit(interaction, ticketService);
+        break;
+      case "disable":
+        await this.handleDisable(interaction, ticketService);
+        break;
+      case "reorder":
+        await this.handleReorder(interaction, ticketService);
+        break;
+      case "question-add":
+        await this.handleQuestionAdd(interaction, ticketService);
+        break;
+      case "question-remove":
+        await this.handleQuestionRemove(interaction, ticketService);
+        break;
+      default:
+        await this.reply(interaction, "❌ Unknown subcommand.", true);
+        return;
+    }
+  }
+
+  private async handleCreate(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const name = interaction.options.getString("name", true);
+    const discordCategory = interaction.options.getChannel("category", true);
+
+    if (discordCategory.type !== ChannelType.GuildCategory) {
+      await this.reply(interaction, "❌ Please select a Discord category.");
+      return;
+    }
+
+    if (categoryRepository.resolve(name)) {
+      await this.reply(
+        interaction,
+        `❌ A ticket category named **${name}** already exists.`
+      );
+      return;
+    }
+
+    if (categoryRepository.getActive().length >= MAX_ACTIVE_CATEGORIES) {
+      await this.reply(
+        interaction,
+        `❌ The ticket panel cannot show more than ${MAX_ACTIVE_CATEGORIES} categories.`
+      );
+      return;
+    }
+
+    const changes = this.readChanges(interaction);
+    if (typeof changes === "string") {
+      await this.reply(interaction, `❌ ${changes}`);
+      return;
+    }
+
+    const category = await categoryRepository.create({
+      Name: name,
+      Description: changes.Description ?? null,
+      DefaultMessage: changes.DefaultMessage ?? null,
+      Emoji: changes.Emoji ?? null,
+      Color: changes.Color ?? null,
+      DiscordCategoryId: discordCategory.id,
+      ThreadChannelId: changes.ThreadChannelId ?? null,
+      SupportRoleIds: changes.SupportRoleIds ?? [],
+      Questions: [],
+      FirstResponseTargetMinutes: changes.FirstResponseTargetMinutes ?? null,
+      ResolutionTargetMinutes: changes.ResolutionTargetMinutes ?? null,
+      MaxOpenPerUser: changes.MaxOpenPerUser ?? null,
+      SortOrder: categoryRepository.getAll().length,
+      Active: true,
+    });
+
+    await ticketService.refreshTicketMenus();
+    this.logger.info(
+      `Ticket category ${category.Name} (${category.Id}) created by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Created ticket category **${category.Name}**.`
+    );
+  }
+
+  private async handleEdit(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const category = categoryRepository.resolve(
+      interaction.options.getString("category", true)
+    );
+
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    const changes = this.readChanges(interaction);
+    if (typeof changes === "string") {
+      await this.reply(interaction, `❌ ${changes}`);
+      return;
+    }
+
+    const name = interaction.options.getString("name");
+    if (name) {
+      const existing = categoryRepository.resolve(name);
+      if (existing && existing.Id !== category.Id) {
+        await this.reply(
+          interaction,
+          `❌ A ticket category named **${name}** already exists.`
+        );
+        return;
+      }
+      changes.Name = name;
+    }
+
+    const discordCategory = interaction.options.getChannel("discord-category");
+    if (discordCategory) {
+      if (discordCategory.type !== ChannelType.GuildCategory) {
+        await this.reply(interaction, "❌ Please select a Discord category.");
+        return;
+      }
+      changes.DiscordCategoryId = discordCategory.id;
+    }
+
+    const active = interaction.options.getBoolean("active");
+    if (active !== null) {
+      if (
+        active &&
+        !category.Active &&
+        categoryRepository.getActive().length >= MAX_ACTIVE_CATEGORIES
+      ) {
+        await this.reply(
+          interaction,
+          `❌ The ticket panel cannot show more than ${MAX_ACTIVE_CATEGORIES} categories.`
+        );
+        return;
+      }
+      changes.Active = active;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      await this.reply(interaction, "❌ Nothing to change.");
+      return;
+    }
+
+    const updated = await categoryRepository.update(category.Id, changes);
+
+    await ticketService.refreshTicketMenus();
+    this.logger.info(
+      `Ticket category ${updated.Name} (${updated.Id}) edited by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Updated ticket category **${updated.Name}**.`
+    );
+  }
+
+  private async handleDisable(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const category = categoryRepository.resolve(
+      interaction.options.getString("category", true)
+    );
+
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    if (!category.Active) {
+      await this.reply(
+        interaction,
+        `❌ **${category.Name}** is already disabled.`
+      );
+      return;
+    }
+
+    await categoryRepository.disable(category.Id);
+
+    await ticketService.refreshTicketMenus();
+    this.logger.info(
+      `Ticket category ${category.Name} (${category.Id}) disabled by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Disabled ticket category **${category.Name}**. Existing tickets stay open.`
+    );
+  }
+
+  private async handleReorder(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const category = categoryRepository.resolve(
+      interaction.options.getString("category", true)
+    );
+
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    const position = interaction.options.getInteger("position", true);
+    await categoryRepository.reorder(category.Id, position - 1);
+
+    await ticketService.refreshTicketMenus();
+
+    const order = categoryRepository
+      .getAll()
+      .map(
+        (entry, index) =>
+          `${index + 1}. ${entry.Emoji ?? "🎫"} ${entry.Name}` +
+          (entry.Active ? "" : " *(disabled)*")
+      )
+      .join("\n");
+
+    await this.reply(interaction, `✅ New category order:\n${order}`);
+  }
+
+  private async handleQuestionAdd(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const category = categoryRepository.resolve(
+      interaction.options.getString("category", true)
+    );
+
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    if (category.Questions.length >= MAX_TICKET_QUESTIONS) {
+      await this.reply(
+        interaction,
+        `❌ A form cannot have more than ${MAX_TICKET_QUESTIONS} questions.`
+      );
+      return;
+    }
+
+    const minLength = interaction.options.getInteger("min-length");
+    const maxLength = interaction.options.getInteger("max-length");
+    if (minLength !== null && maxLength !== null && minLength > maxLength) {
+      await this.reply(
+        interaction,
+        "❌ min-length cannot be larger than max-length."
+      );
+      return;
+    }
+
+    const updated = await categoryRepository.update(category.Id, {
+      Questions: [
+        ...category.Questions,
+        {
+          Label: interaction.options.getString("label", true),
+          Placeholder: interaction.options.getString("placeholder"),
+          Style:
+            interaction.options.getString("style") === "PARAGRAPH"
+              ? "PARAGRAPH"
+              : "SHORT",
+          Required: interaction.options.getBoolean("required") ?? true,
+          MinLength: minLength,
+          MaxLength: maxLength,
+        },
+      ],
+    });
+
+    this.logger.info(
+      `Question added to ticket category ${updated.Name} (${updated.Id}) by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Intake form of **${updated.Name}**:\n${this.formatQuestions(updated)}`
+    );
+  }
+
+  private async handleQuestionRemove(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const categoryRepository = ticketService.getCategoryRepository();
+    const category = categoryRepository.resolve(
+      interaction.options.getString("category", true)
+    );
+
+    if (!category) {
+      await this.reply(interaction, "❌ Ticket category not found.");
+      return;
+    }
+
+    const position = interaction.options.getInteger("position", true);
+    if (position > category.Questions.length) {
+      await this.reply(
+        interaction,
+        `❌ **${category.Name}** only has ${category.Questions.length} questions.`
+      );
+      return;
+    }
+
+    const updated = await categoryRepository.update(category.Id, {
+      Questions: category.Questions.filter(
+        (_, index) => index !== position - 1
+      ),
+    });
+
+    this.logger.info(
+      `Question removed from ticket category ${updated.Name} (${updated.Id}) by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Intake form of **${updated.Name}**:\n${this.formatQuestions(updated)}`
+    );
+  }
+
+  private formatQuestions(category: ITicketCategory): string {
+    if (category.Questions.length === 0) {
+      return "*No questions, tickets open without a form.*";
+    }
+
+    return category.Questions.map(
+      (question, index) =>
+        `${index + 1}. ${question.Label} (${question.Style.toLowerCase()}` +
+        (question.Required ? ", required" : "") +
+        ")"
+    ).join("\n");
+  }
+
+  // Reads the options shared by create and edit, returns an error message if invalid
+  private readChanges(
+    interaction: ChatInputCommandInteraction
+  ): Partial<TicketCategoryInput> | string {
+    const changes: Partial<TicketCategoryInput> = {};
+
+    const emoji = interaction.options.getString("emoji");
+    if (emoji) changes.Emoji = emoji;
+
+    const description = interaction.options.getString("description");
+    if (description) changes.Description = description;
+
+    const defaultMessage = interaction.options.getString("default-message");
+    if (defaultMessage) changes.DefaultMessage = defaultMessage;
+
+    const color = interaction.options.getString("color");
+    if (color) {
+      if (!/^#?[0-9a-f]{6}$/i.test(color)) {
+        return "Color must be a hex value like #2ecc71.";
+      }
+      changes.Color = color.startsWith("#") ? color : `#${color}`;
+    }
+
+    const supportRoles = interaction.options.getString("support-roles");
+    if (supportRoles) {
+      const roleIds = Array.from(supportRoles.matchAll(/\d{17,20}/g)).map(
+        (match) => match[0]
+      );
+      if (roleIds.length === 0) {
+        return "No valid roles found in support-roles.";
+      }
+      changes.SupportRoleIds = roleIds;
+    }
+
+    const firstResponseTarget = interaction.options.getInteger(
+      "first-response-target"
+    );
+    if (firstResponseTarget !== null) {
+      changes.FirstResponseTargetMinutes = firstResponseTarget || null;
+    }
+
+    const resolutionTarget = interaction.options.getInteger("resolution-target");
+    if (resolutionTarget !== null) {
+      changes.ResolutionTargetMinutes = resolutionTarget || null;
+    }
+
+    const maxOpen = interaction.options.getInteger("max-open");
+    if (maxOpen !== null) {
+      changes.MaxOpenPerUser = maxOpen || null;
+    }
+
+    const threadChannel = interaction.options.getChannel("thread-channel");
+    if (threadChannel) {
+      if (threadChannel.type !== ChannelType.GuildText) {
+        return "Please select a text channel for thread-channel.";
+      }
+      changes.ThreadChannelId = threadChannel.id;
+    }
+
+    // Only offered on edit
+    if (interaction.options.getBoolean("threads") === false) {
+      changes.ThreadChannelId = null;
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,121 @@
+import { EmbedBuilder, type ChatInputCommandInteraction } from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import type { TicketFeedbackAverage } from "../ticket/TicketFeedbackRepository";
+
+@Command({
+  name: "ticket-feedback",
+  description: "Show the ticket satisfaction ratings",
+  permissions: ["ManageChannels"],
+  guildOnly: true,
+  options: [
+    {
+      name: "handler",
+      description: "Show the ratings and latest comments of one staff member",
+      type: "user",
+    },
+  ],
+})
+export class TicketFeedbackCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketFeedbackCommand");
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const feedbackRepository = ticketService.getFeedbackRepository();
+    const categoryRepository = ticketService.getCategoryRepository();
+    const handler = interaction.options.getUser("handler");
+
+    if (handler) {
+      const average = (await feedbackRepository.getAveragesByHandler()).find(
+        (entry) => entry.Id === handler.id
+      );
+      if (!average) {
+        await this.reply(interaction, `${handler} has not been rated yet.`);
+        return;
+      }
+
+      const recent = await feedbackRepository.findRecentByHandler(handler.id);
+      const comments = recent
+        .map(
+          (feedback) =>
+            `${"⭐".repeat(feedback.Rating)} <t:${Math.floor(
+              feedback.CreatedAt.getTime() / 1000
+            )}:R>` + (feedback.Comment ? `\n> ${feedback.Comment}` : "")
+        )
+        .join("\n\n");
+
+      const embed = new EmbedBuilder()
+        .setTitle(`⭐ Ratings of ${handler.tag}`)
+        .setDescription(
+          `**${this.formatAverage(average)}**\n\n${comments}`.slice(0, 4096)
+        )
+        .setColor(0xf1c40f)
+        .setTimestamp();
+
+      await interaction.editReply({ embeds: [embed] });
+      return;
+    }
+
+    const [byHandler, byCategory] = await Promise.all([
+      feedbackRepository.getAveragesByHandler(),
+      feedbackRepository.getAveragesByCategory(),
+    ]);
+
+    if (byHandler.length === 0 && byCategory.length === 0) {
+      await this.reply(interaction, "No tickets have been rated yet.");
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle("⭐ Ticket Satisfaction")
+      .addFields(
+        {
+          name: "By handler",
+          value:
+            byHandler
+              .map((entry) => `<@${entry.Id}> · ${this.formatAverage(entry)}`)
+              .join("\n")
+              .slice(0, 1024) || "No claimed tickets rated yet",
+        },
+        {
+          name: "By category",
+          value:
+            byCategory
+              .map(
+                (entry) =>
+                  `${categoryRepository.get(entry.Id)?.Name ?? entry.Id} · ` +
+                  this.formatAverage(entry)
+              )
+              .join("\n")
+              .slice(0, 1024) || "No ratings yet",
+        }
+      )
+      .setColor(0xf1c40f)
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+
+  private formatAverage(average: TicketFeedbackAverage): string {
+    return `${average.Average.toFixed(2)} / 5 (${average.Count} ${
+      average.Count === 1 ? "rating" : "ratings"
+    })`;
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  ChannelType,
+  EmbedBuilder,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import type { TicketMenuInput } from "../ticket/TicketMenuRepository";
+import type { TicketMenuStyle } from "../../config";
+
+const styleChoices = [
+  { name: "Buttons", value: "BUTTONS" },
+  { name: "Select menu", value: "SELECT" },
+];
+
+@Command({
+  name: "ticket-panel",
+  description: "Manage ticket panels",
+  permissions: ["ManageChannels"],
+  guildOnly: true,
+  subcommands: [
+    {
+      name: "create",
+      description: "Post a new ticket panel",
+      options: [
+        {
+          name: "channel",
+          description: "Channel the panel is posted in",
+          type: "channel",
+          required: true,
+        },
+        {
+          name: "title",
+          description: "Title of the panel embed",
+          type: "string",
+          maxLength: 256,
+        },
+        {
+          name: "description",
+          description: "Text shown above the category list",
+          type: "string",
+          maxLength: 2000,
+        },
+        {
+          name: "categories",
+          description:
+            "Comma separated category names or ids, leave empty for all",
+          type: "string",
+        },
+        {
+          name: "style",
+          description: "How the categories are offered",
+          type: "string",
+          choices: styleChoices,
+        },
+      ],
+    },
+    {
+      name: "edit",
+      description: "Edit an existing ticket panel",
+      options: [
+        {
+          name: "panel",
+          description: "Panel id or message id",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "title",
+          description: "Title of the panel embed",
+          type: "string",
+          maxLength: 256,
+        },
+        {
+          name: "description",
+          description: "Text shown above the category list",
+          type: "string",
+          maxLength: 2000,
+        },
+        {
+          name: "categories",
+          description: "Comma separated category names or ids, or 'all'",
+          type: "string",
+        },
+        {
+          name: "style",
+          description: "How the categories are offered",
+          type: "string",
+          choices: styleChoices,
+        },
+      ],
+    },
+    {
+      name: "delete",
+      description: "Delete a ticket panel and its message",
+      options: [
+        {
+          name: "panel",
+          description: "Panel id or message id",
+          type: "string",
+          required: true,
+        },
+      ],
+    },
+    {
+      name: "list",
+      description: "List all ticket panels",
+    },
+  ],
+})
+export class TicketPanelCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketPanelCommand");
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const subcommand = interaction.options.getSubcommand();
+    switch (subcommand) {
+      case "create":
+        await this.handleCreate(interaction, ticketService);
+        break;
+      case "edit":
+        await this.handleEdit(interaction, ticketService);
+        break;
+      case "delete":
+        await this.handleDelete(interaction, ticketService);
+        break;
+      case "list":
+        await this.handleList(interaction, ticketService);
+        break;
+      default:
+        await this.reply(interaction, "❌ Unknown subcommand.", true);
+        return;
+    }
+  }
+
+  private async handleCreate(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const channel = interaction.options.getChannel("channel", true);
+    if (channel.type !== ChannelType.GuildText) {
+      await this.reply(interaction, "❌ Please select a text channel.");
+      return;
+    }
+
+    const categoryIds = ticketService
+      .getCategoryRepository()
+      .resolveMany(interaction.options.getString("categories"));
+    if (typeof categoryIds === "string") {
+      await this.reply(interaction, `❌ ${categoryIds}`);
+      return;
+    }
+
+    const menu = await ticketService.createTicketMenu({
+      ChannelId: channel.id,
+      Title: interaction.options.getString("title"),
+      Description: interaction.options.getString("description"),
+      CategoryIds: categoryIds,
+      Style:
+        (interaction.options.getString("style") as TicketMenuStyle) ??
+        "BUTTONS",
+    });
+
+    if (!menu) {
+      await this.reply(interaction, "❌ Could not post the panel there.");
+      return;
+    }
+
+    this.logger.info(
+      `Ticket panel ${menu.Id} created in ${channel.id} by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Posted ticket panel \`${menu.Id}\` in ${channel}.`
+    );
+  }
+
+  private async handleEdit(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const menuRepository = ticketService.getMenuRepository();
+    const menu = await menuRepository.resolve(
+      interaction.options.getString("panel", true)
+    );
+
+    if (!menu) {
+      await this.reply(interaction, "❌ Ticket panel not found.");
+      return;
+    }
+
+    const changes: Partial<TicketMenuInput> = {};
+
+    const title = interaction.options.getString("title");
+    if (title) changes.Title = title;
+
+    const description = interaction.options.getString("description");
+    if (description) changes.Description = description;
+
+    const style = interaction.options.getString("style");
+    if (style) changes.Style = style as TicketMenuStyle;
+
+    const categories = interaction.options.getString("categories");
+    if (categories) {
+      const categoryIds = ticketService
+        .getCategoryRepository()
+        .resolveMany(categories);
+      if (typeof categoryIds === "string") {
+        await this.reply(interaction, `❌ ${categoryIds}`);
+        return;
+      }
+      changes.CategoryIds = categoryIds;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      await this.reply(interaction, "❌ Nothing to change.");
+      return;
+    }
+
+    const updated = await menuRepository.update(menu.Id, changes);
+    await ticketService.syncTicketMenu(updated);
+
+    this.logger.info(
+      `Ticket panel ${menu.Id} edited by ${interaction.user.tag}`
+    );
+    await this.reply(interaction, `✅ Updated ticket panel \`${menu.Id}\`.`);
+  }
+
+  private async handleDelete(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const menu = await ticketService
+      .getMenuRepository()
+      .resolve(interaction.options.getString("panel", true));
+
+    if (!menu) {
+      await this.reply(interaction, "❌ Ticket panel not found.");
+      return;
+    }
+
+    await ticketService.deleteTicketMenu(menu);
+
+    this.logger.info(
+      `Ticket panel ${menu.Id} deleted by ${interaction.user.tag}`
+    );
+    await this.reply(interaction, `✅ Deleted ticket panel \`${menu.Id}\`.`);
+  }
+
+  private async handleList(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const menus = await ticketService.getMenuRepository().findAll();
+    const categoryRepository = ticketService.getCategoryRepository();
+
+    if (menus.length === 0) {
+      await this.reply(interaction, "There are no ticket panels yet.");
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle("🎫 Ticket Panels")
+      .setDescription(
+        menus
+          .map((menu) => {
+            const categories =
+              menu.CategoryIds.length === 0
+                ? "All categories"
+                : menu.CategoryIds.map(
+                    (id) => categoryRepository.get(id)?.Name ?? id
+                  ).join(", ");
+            return (
+              `**${menu.Title ?? "Default panel"}** (\`${menu.Id}\`)\n` +
+              `<#${menu.ChannelId}> · ${menu.Style.toLowerCase()} · ${categories}`
+            );
+          })
+          .join("\n\n")
+          .slice(0, 4096)
+      )
+      .setColor(0x5865f2)
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+}
@@ -0,0 +1,341 @@
+import {
+  EmbedBuilder,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+import type { TicketSnippetInput } from "../ticket/TicketSnippetRepository";
+
+const placeholderHelp =
+  "Placeholders: {user}, {type}, {handler}, {staff}. Use \\n for line breaks";
+
+@Command({
+  name: "ticket-snippet",
+  description: "Manage canned responses for ticket staff",
+  permissions: ["ManageChannels"],
+  guildOnly: true,
+  subcommands: [
+    {
+      name: "create",
+      description: "Create a new snippet",
+      options: [
+        {
+          name: "name",
+          description: "Name staff pick the snippet by",
+          type: "string",
+          required: true,
+          maxLength: 50,
+        },
+        {
+          name: "content",
+          description: placeholderHelp,
+          type: "string",
+          required: true,
+          maxLength: 2000,
+        },
+        {
+          name: "embed",
+          description: "Send the snippet as an embed",
+          type: "boolean",
+        },
+        {
+          name: "title",
+          description: "Title of the embed",
+          type: "string",
+          maxLength: 256,
+        },
+        {
+          name: "categories",
+          description:
+            "Comma separated category names or ids, leave empty for all",
+          type: "string",
+        },
+      ],
+    },
+    {
+      name: "edit",
+      description: "Edit an existing snippet",
+      options: [
+        {
+          name: "snippet",
+          description: "Snippet to edit",
+          type: "string",
+          required: true,
+          autocomplete: true,
+        },
+        {
+          name: "name",
+          description: "New name of the snippet",
+          type: "string",
+          maxLength: 50,
+        },
+        {
+          name: "content",
+          description: placeholderHelp,
+          type: "string",
+          maxLength: 2000,
+        },
+        {
+          name: "embed",
+          description: "Send the snippet as an embed",
+          type: "boolean",
+        },
+        {
+          name: "title",
+          description: "Title of the embed, 'none' removes it",
+          type: "string",
+          maxLength: 256,
+        },
+        {
+          name: "categories",
+          description: "Comma separated category names or ids, or 'all'",
+          type: "string",
+        },
+      ],
+    },
+    {
+      name: "delete",
+      description: "Delete a snippet",
+      options: [
+        {
+          name: "snippet",
+          description: "Snippet to delete",
+          type: "string",
+          required: true,
+          autocomplete: true,
+        },
+      ],
+    },
+    {
+      name: "list",
+      description: "List all snippets",
+    },
+  ],
+})
+export class TicketSnippetCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketSnippetCommand");
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const subcommand = interaction.options.getSubcommand();
+    switch (subcommand) {
+      case "create":
+        await this.handleCreate(interaction, ticketService);
+        break;
+      case "edit":
+        await this.handleEdit(interaction, ticketService);
+        break;
+      case "delete":
+        await this.handleDelete(interaction, ticketService);
+        break;
+      case "list":
+        await this.handleList(interaction, ticketService);
+        break;
+      default:
+        await this.reply(interaction, "❌ Unknown subcommand.", true);
+        return;
+    }
+  }
+
+  public async autocomplete(
+    interaction: AutocompleteInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    const query = interaction.options.getFocused().toLowerCase();
+    const snippets = ticketService?.getSnippetRepository().getAll() ?? [];
+
+    await interaction.respond(
+      snippets
+        .filter((snippet) => snippet.Name.toLowerCase().includes(query))
+        .slice(0, 25)
+        .map((snippet) => ({ name: snippet.Name, value: snippet.Name }))
+    );
+  }
+
+  private async handleCreate(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const snippetRepository = ticketService.getSnippetRepository();
+    const name = interaction.options.getString("name", true).trim();
+
+    if (snippetRepository.resolve(name)) {
+      await this.reply(interaction, `❌ A snippet named **${name}** exists.`);
+      return;
+    }
+
+    const categoryIds = ticketService
+      .getCategoryRepository()
+      .resolveMany(interaction.options.getString("categories"));
+    if (typeof categoryIds === "string") {
+      await this.reply(interaction, `❌ ${categoryIds}`);
+      return;
+    }
+
+    const snippet = await snippetRepository.create({
+      Name: name,
+      Content: this.readContent(interaction.options.getString("content", true)),
+      Embed: interaction.options.getBoolean("embed") ?? false,
+      Title: interaction.options.getString("title"),
+      CategoryIds: categoryIds,
+      CreatedBy: interaction.user.id,
+    });
+
+    this.logger.info(
+      `Ticket snippet ${snippet.Name} created by ${interaction.user.tag}`
+    );
+    await this.reply(
+      interaction,
+      `✅ Created snippet **${snippet.Name}**. Send it with \`/reply\`.`
+    );
+  }
+
+  private async handleEdit(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const snippetRepository = ticketService.getSnippetRepository();
+    const snippet = snippetRepository.resolve(
+      interaction.options.getString("snippet", true)
+    );
+
+    if (!snippet) {
+      await this.reply(interaction, "❌ Snippet not found.");
+      return;
+    }
+
+    const changes: Partial<Omit<TicketSnippetInput, "CreatedBy">> = {};
+
+    const name = interaction.options.getString("name")?.trim();
+    if (name) {
+      const existing = snippetRepository.resolve(name);
+      if (existing && existing.Id !== snippet.Id) {
+        await this.reply(interaction, `❌ A snippet named **${name}** exists.`);
+        return;
+      }
+      changes.Name = name;
+    }
+
+    const content = interaction.options.getString("content");
+    if (content) changes.Content = this.readContent(content);
+
+    const embed = interaction.options.getBoolean("embed");
+    if (embed !== null) changes.Embed = embed;
+
+    const title = interaction.options.getString("title");
+    if (title) changes.Title = title.toLowerCase() === "none" ? null : title;
+
+    const categories = interaction.options.getString("categories");
+    if (categories) {
+      const categoryIds = ticketService
+        .getCategoryRepository()
+        .resolveMany(categories);
+      if (typeof categoryIds === "string") {
+        await this.reply(interaction, `❌ ${categoryIds}`);
+        return;
+      }
+      changes.CategoryIds = categoryIds;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      await this.reply(interaction, "❌ Nothing to change.");
+      return;
+    }
+
+    const updated = await snippetRepository.update(snippet.Id, changes);
+
+    this.logger.info(
+      `Ticket snippet ${updated.Name} edited by ${interaction.user.tag}`
+    );
+    await this.reply(interaction, `✅ Updated snippet **${updated.Name}**.`);
+  }
+
+  private async handleDelete(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const snippetRepository = ticketService.getSnippetRepository();
+    const snippet = snippetRepository.resolve(
+      interaction.options.getString("snippet", true)
+    );
+
+    if (!snippet) {
+      await this.reply(interaction, "❌ Snippet not found.");
+      return;
+    }
+
+    await snippetRepository.delete(snippet.Id);
+
+    this.logger.info(
+      `Ticket snippet ${snippet.Name} deleted by ${interaction.user.tag}`
+    );
+    await this.reply(interaction, `✅ Deleted snippet **${snippet.Name}**.`);
+  }
+
+  private async handleList(
+    interaction: ChatInputCommandInteraction,
+    ticketService: TicketService
+  ): Promise<void> {
+    const snippets = ticketService.getSnippetRepository().getAll();
+    const categoryRepository = ticketService.getCategoryRepository();
+
+    if (snippets.length === 0) {
+      await this.reply(interaction, "There are no snippets yet.");
+      return;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle("💬 Ticket Snippets")
+      .setDescription(
+        snippets
+          .map((snippet) => {
+            const categories =
+              snippet.CategoryIds.length === 0
+                ? "All categories"
+                : snippet.CategoryIds.map(
+                    (id) => categoryRepository.get(id)?.Name ?? id
+                  ).join(", ");
+            const preview =
+              snippet.Content.length > 80
+                ? `${snippet.Content.slice(0, 77)}...`
+                : snippet.Content;
+            return (
+              `**${snippet.Name}** · ${snippet.Embed ? "embed" : "text"} · ${categories}\n` +
+              `> ${preview.replaceAll("\n", " ")}`
+            );
+          })
+          .join("\n\n")
+          .slice(0, 4096)
+      )
+      .setColor(0x5865f2)
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+
+  // Slash command options are single line, so line breaks are written as \n
+  private readContent(input: string): string {
+    return input.replaceAll("\\n", "\n");
+  }
+}
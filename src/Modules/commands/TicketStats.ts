@@ -0,0 +1,95 @@
+import { EmbedBuilder, type ChatInputCommandInteraction } from "discord.js";
+import { Command } from "../../commands/CommandDecorator";
+import { BaseCommand } from "../../commands/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type {
+  TicketService,
+  TicketSlaMetrics,
+} from "../ticket/TicketService";
+
+@Command({
+  name: "ticket-stats",
+  description: "Show ticket counts and SLA metrics",
+  permissions: ["ManageChannels"],
+  guildOnly: true,
+  options: [
+    {
+      name: "days",
+      description: "How many days the SLA metrics cover (default 30)",
+      type: "integer",
+      minValue: 1,
+      maxValue: 365,
+    },
+  ],
+})
+export class TicketStatsCommand extends BaseCommand {
+  private logger: Logger = LoggerFactory.create("TicketStatsCommand");
+
+  public override async execute(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    const ticketService = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service");
+
+    if (!ticketService) {
+      this.logger.error("TicketService not found");
+      await this.reply(interaction, "❌ The ticket system is unavailable.", true);
+      return;
+    }
+
+    await this.deferReply(interaction, true);
+
+    const days = interaction.options.getInteger("days") ?? 30;
+    const stats = await ticketService.getTicketStats(days);
+    const categoryRepository = ticketService.getCategoryRepository();
+    const pending = ticketService.getTicketCache().getPendingTickets().length;
+
+    const perCategory = Object.entries(stats.sla.byType)
+      .map(
+        ([type, metrics]) =>
+          `**${categoryRepository.get(type)?.Name ?? (type || "Unknown")}**\n` +
+          this.formatMetrics(metrics)
+      )
+      .join("\n\n");
+
+    const embed = new EmbedBuilder()
+      .setTitle("📊 Ticket Statistics")
+      .addFields(
+        {
+          name: "Live",
+          value: `${stats.open} open (${pending} pending) · ${stats.closed} closing`,
+        },
+        {
+          name: `SLA, last ${days} days`,
+          value: this.formatMetrics(stats.sla),
+        },
+        {
+          name: "By category",
+          value: perCategory.slice(0, 1024) || "No tickets in this period",
+        }
+      )
+      .setColor(0x3498db)
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  }
+
+  private formatMetrics(metrics: TicketSlaMetrics): string {
+    const format = (minutes: number | null) =>
+      minutes === null
+        ? "n/a"
+        : minutes < 60
+        ? `${Math.round(minutes)}m`
+        : `${(minutes / 60).toFixed(1)}h`;
+
+    return (
+      `First response: ${format(metrics.firstResponse.averageMinutes)} avg ` +
+      `(${metrics.firstResponse.count} tickets, ${metrics.firstResponse.breached} breached)\n` +
+      `Resolution: ${format(metrics.resolution.averageMinutes)} avg ` +
+      `(${metrics.resolution.count} tickets, ${metrics.resolution.breached} breached)`
+    );
+  }
+}
@@ -1,4 +1,8 @@
-import type { ChatInputCommandInteraction, ClientEvents } from "discord.js";
+import type {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  ClientEvents,
+} from "discord.js";
 import { BaseEvent } from "../../events/types";
 import { bootstrap } from "../..";
 import type { IBoot } from "../../interfaces/IBoot";
@@ -92,6 +96,11 @@ export class AdvancedCommandInteractionHandler extends BaseEvent<"interactionCre
   public async execute(
     interaction: ClientEvents["interactionCreate"][0]
   ): Promise<void> {
+    if (interaction.isAutocomplete()) {
+      await this.handleAutocomplete(interaction);
+      return;
+    }
+
     if (!interaction.isChatInputCommand()) {
       return;
     }
@@ -107,6 +116,26 @@ export class AdvancedCommandInteractionHandler extends BaseEvent<"interactionCre
     await this.executeCommand(context, command);
   }
 
+  // Suggestions have to be answered within three seconds, failures just show no choices
+  private async handleAutocomplete(
+    interaction: AutocompleteInteraction
+  ): Promise<void> {
+    const command = this.commandManager.commands.get(interaction.commandName);
+    if (!command?.autocomplete) {
+      return;
+    }
+
+    try {
+      await command.autocomplete(interaction);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(
+        `Error handling autocomplete for ${interaction.commandName}:`,
+        err
+      );
+    }
+  }
+
   private createExecutionContext(
     interaction: ChatInputCommandInteraction
   ): CommandExecutionContext {
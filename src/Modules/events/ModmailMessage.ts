@@ -0,0 +1,27 @@
+import type { Message } from "discord.js";
+import { BaseEvent } from "../../events/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+
+export class ModmailMessage extends BaseEvent<"messageCreate"> {
+  public readonly name = "messageCreate";
+
+  private logger: Logger = LoggerFactory.create("ModmailMessage");
+
+  public async execute(message: Message): Promise<void> {
+    // Guild messages are tracked by TicketActivity
+    if (message.author.bot || message.inGuild()) return;
+
+    try {
+      await bootstrap
+        .getServiceManager()
+        .getService<TicketService>("ticket-service")
+        ?.handleDirectMessage(message);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error handling modmail message:", err);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import type { Message } from "discord.js";
+import { BaseEvent } from "../../events/types";
+import type { Logger } from "../../logger";
+import { LoggerFactory } from "../../logger/factory";
+import { bootstrap } from "../..";
+import type { TicketService } from "../ticket/TicketService";
+
+export class TicketActivity extends BaseEvent<"messageCreate"> {
+  public readonly name = "messageCreate";
+
+  private logger: Logger = LoggerFactory.create("TicketActivity");
+
+  public async execute(message: Message): Promise<void> {
+    // Bot messages, including the inactivity warning itself, do not keep a ticket alive
+    if (message.author.bot || !message.inGuild()) return;
+
+    try {
+      await bootstrap
+        .getServiceManager()
+        .getService<TicketService>("ticket-service")
+        ?.handleTicketMessage(message);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error("Error tracking ticket message:", err);
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import {
   ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
   GuildMember,
   MessageFlags,
   ModalBuilder,
@@ -7,28 +10,36 @@ import {
   TextInputStyle,
   type ButtonInteraction,
   type ClientEvents,
+  type Guild,
   type Interaction,
+  type ModalSubmitInteraction,
+  type StringSelectMenuInteraction,
 } from "discord.js";
 import { BaseEvent } from "../../events/types";
 import type { Logger } from "../../logger";
 import { LoggerFactory } from "../../logger/factory";
 import { TicketHandler } from "../ticket/TicketHandler";
-import { config, type TicketType } from "../../config";
+import {
+  config,
+  type ITicketCategory,
+  type ITicketIntakeAnswer,
+  type TicketType,
+} from "../../config";
 import { bootstrap } from "../..";
 import { TicketService } from "../ticket/TicketService";
-import type { TicketCache } from "../ticket/TicketCache";
+import type { TicketRepository } from "../ticket/TicketRepository";
 
 export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
   public readonly name = "interactionCreate";
 
   private logger: Logger = LoggerFactory.create("TicketButtonInteraction");
   private ticketHandler: TicketHandler;
-  private ticketCache: TicketCache;
+  private ticketRepository: TicketRepository;
 
   constructor() {
     super();
     this.ticketHandler = new TicketHandler();
-    this.ticketCache = this.ticketHandler.getTicketCache()!;
+    this.ticketRepository = this.ticketHandler.getTicketRepository()!;
   }
 
   public async execute(interaction: Interaction): Promise<void> {
@@ -38,17 +49,52 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
           interaction.customId.startsWith("ticket_") ||
           interaction.customId.startsWith("close_ticket_") ||
           interaction.customId.startsWith("add_user_") ||
-          interaction.customId.startsWith("remove_user_")
+          interaction.customId.startsWith("remove_user_") ||
+          interaction.customId.startsWith("claim_ticket_") ||
+          interaction.customId.startsWith("unclaim_ticket_") ||
+          interaction.customId.startsWith("transfer_ticket_") ||
+          interaction.customId.startsWith("pending_ticket_") ||
+          interaction.customId.startsWith("resume_ticket_") ||
+          interaction.customId.startsWith("reopen_ticket_") ||
+          interaction.customId.startsWith("archive_ticket_") ||
+          interaction.customId.startsWith("keep_open_") ||
+          interaction.customId.startsWith("cancel_close_") ||
+          interaction.customId.startsWith("rate_ticket_") ||
+          interaction.customId.startsWith("feedback_comment_") ||
+          interaction.customId.startsWith("view_notes_") ||
+          interaction.customId.startsWith("search_page_")
         ) {
           await this.handleButtonInteraction(interaction);
         }
       }
 
+      if (
+        interaction.isStringSelectMenu() &&
+        interaction.customId === "ticket_select"
+      ) {
+        await this.handleTicketCreation(interaction, interaction.values[0]);
+      }
+
+      if (
+        interaction.isStringSelectMenu() &&
+        interaction.customId === "modmail_select"
+      ) {
+        await this.handleTicketCreation(
+          interaction,
+          interaction.values[0],
+          true
+        );
+      }
+
       if (interaction.isModalSubmit()) {
         if (
           interaction.customId.startsWith("close_reason_") ||
           interaction.customId.startsWith("add_user_modal_") ||
-          interaction.customId.startsWith("remove_user_modal_")
+          interaction.customId.startsWith("remove_user_modal_") ||
+          interaction.customId.startsWith("transfer_modal_") ||
+          interaction.customId.startsWith("ticket_form_") ||
+          interaction.customId.startsWith("modmail_form_") ||
+          interaction.customId.startsWith("feedback_modal_")
         ) {
           await this.handleModalSubmit(interaction);
         }
@@ -62,27 +108,22 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
   async handleButtonInteraction(interaction: ButtonInteraction) {
     const { customId, user, guild } = interaction;
 
+    // Staff Notes Button
+    if (customId.startsWith("view_notes_")) {
+      await this.handleViewNotes(interaction);
+      return;
+    }
+
+    // Search Result Page Buttons
+    if (customId.startsWith("search_page_")) {
+      await this.handleSearchPage(interaction);
+      return;
+    }
+
     // Ticket Creation Buttons
     if (customId.startsWith("ticket_")) {
       const ticketType = customId.replace("ticket_", "") as TicketType;
-
-      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
-
-      const result = await this.ticketHandler.createTicket(
-        user.id,
-        ticketType,
-        guild!
-      );
-
-      if (result.success) {
-        await interaction.editReply({
-          content: `✅ Your **${ticketType}** ticket has been created: ${result.channel}\n\nPlease head over to your ticket channel to continue.`,
-        });
-      } else {
-        await interaction.editReply({
-          content: `❌ ${result.message}`,
-        });
-      }
+      await this.handleTicketCreation(interaction, ticketType);
       return;
     }
 
@@ -91,7 +132,7 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
       const channelId = customId.replace("close_ticket_", "");
 
       // Check if user has permission to close (creator or staff)
-      const ticket = this.ticketCache?.getTicket(channelId);
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
       if (!ticket) {
         await interaction.reply({
           content: "❌ Ticket not found.",
@@ -102,14 +143,7 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
 
       const member = interaction.member as GuildMember;
       const isCreator = ticket.CreatedBy === user.id;
-      const isStaff =
-        member.roles.cache.has(config.ticket.permissions.supportRoleId) ||
-        config.ticket.permissions.allowedRoles.some((roleId: string) =>
-          member.roles.cache.has(roleId)
-        ) ||
-        config.moderation_roles.some((roleId: string) => {
-          return member.roles.cache.has(roleId);
-        });
+      const isStaff = this.ticketHandler.isStaff(member, ticket.Type);
 
       if (!isCreator && !isStaff) {
         await interaction.reply({
@@ -146,15 +180,9 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
       const channelId = customId.replace("add_user_", "");
 
       // Check if user has permission (staff only)
-      const member = interaction.member as any;
-      const isStaff =
-        member.roles.cache.has(config.ticket.permissions.supportRoleId) ||
-        config.ticket.permissions.allowedRoles.some((roleId: string) =>
-          member.roles.cache.has(roleId)
-        ) ||
-        config.moderation_roles.some((roleId: string) => {
-          return member.roles.cache.has(roleId);
-        });
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
 
       if (!isStaff) {
         await interaction.reply({
@@ -191,14 +219,8 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
 
       // Check if user has permission (staff only)
       const member = interaction.member as GuildMember;
-      const isStaff =
-        member.roles.cache.has(config.ticket.permissions.supportRoleId) ||
-        config.ticket.permissions.allowedRoles.some((roleId: string) =>
-          member.roles.cache.has(roleId)
-        ) ||
-        config.moderation_roles.some((roleId: string) => {
-          return member.roles.cache.has(roleId);
-        });
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
 
       if (!isStaff) {
         await interaction.reply({
@@ -228,12 +250,621 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
       await interaction.showModal(modal);
       return;
     }
+
+    // Claim Ticket Button
+    if (customId.startsWith("claim_ticket_")) {
+      const channelId = customId.replace("claim_ticket_", "");
+
+      // Check if user has permission (staff only)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isStaff) {
+        await interaction.reply({
+          content: "❌ Only staff members can claim tickets.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.claimTicket(channelId, user.id);
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ You are now handling this ticket."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Unclaim Ticket Button
+    if (customId.startsWith("unclaim_ticket_")) {
+      const channelId = customId.replace("unclaim_ticket_", "");
+
+      // Check if user has permission (handler or moderator)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+
+      if (
+        ticket?.HandledBy !== user.id &&
+        !this.ticketHandler.isModerator(member)
+      ) {
+        await interaction.reply({
+          content: "❌ Only the handler of this ticket can unclaim it.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.unclaimTicket(channelId, user.id);
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket has been unclaimed."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Transfer Ticket Button
+    if (customId.startsWith("transfer_ticket_")) {
+      const channelId = customId.replace("transfer_ticket_", "");
+
+      // Check if user has permission (handler or moderator)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+
+      if (
+        ticket?.HandledBy !== user.id &&
+        !this.ticketHandler.isModerator(member)
+      ) {
+        await interaction.reply({
+          content: "❌ Only the handler of this ticket can transfer it.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      // Show modal for user input
+      const modal = new ModalBuilder()
+        .setCustomId(`transfer_modal_${channelId}`)
+        .setTitle("Transfer Ticket");
+
+      const userInput = new TextInputBuilder()
+        .setCustomId("user_id")
+        .setLabel("Staff member ID or @mention")
+        .setStyle(TextInputStyle.Short)
+        .setPlaceholder("Enter the ID or @mention of the new handler...")
+        .setRequired(true);
+
+      const actionRow = new ActionRowBuilder<TextInputBuilder>().addComponents(
+        userInput
+      );
+      modal.addComponents(actionRow);
+
+      await interaction.showModal(modal);
+      return;
+    }
+    // Mark Pending Button
+    if (customId.startsWith("pending_ticket_")) {
+      const channelId = customId.replace("pending_ticket_", "");
+
+      // Check if user has permission (staff only)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isStaff) {
+        await interaction.reply({
+          content: "❌ Only staff members can mark tickets as pending.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.markPending(channelId, user.id);
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket is now waiting for the user."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Resume Ticket Button
+    if (customId.startsWith("resume_ticket_")) {
+      const channelId = customId.replace("resume_ticket_", "");
+
+      // Check if user has permission (creator or staff)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isCreator = ticket?.CreatedBy === user.id;
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isCreator && !isStaff) {
+        await interaction.reply({
+          content: "❌ You don't have permission to resume this ticket.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.resumeTicket(channelId, user.id);
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket has been resumed."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Reopen Ticket Button
+    if (customId.startsWith("reopen_ticket_")) {
+      const channelId = customId.replace("reopen_ticket_", "");
+
+      // Creators may reopen until the ticket is archived, afterwards only staff
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(
+        channelId,
+        true
+      );
+      const isCreator =
+        ticket?.CreatedBy === user.id && ticket.Status === "CLOSED";
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isCreator && !isStaff) {
+        await interaction.reply({
+          content: "❌ You don't have permission to reopen this ticket.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.reopenTicket(channelId, user.id);
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket has been reopened."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Cancel Close Button
+    if (customId.startsWith("cancel_close_")) {
+      const channelId = customId.replace("cancel_close_", "");
+
+      // Check if user has permission (creator or staff)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isCreator = ticket?.CreatedBy === user.id;
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isCreator && !isStaff) {
+        await interaction.reply({
+          content: "❌ You don't have permission to cancel this close.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.cancelClose(channelId, user.id);
+
+      if (result.success) {
+        const cancelledEmbed = new EmbedBuilder()
+          .setTitle("↩️ Close Cancelled")
+          .setDescription(`${user} cancelled the close, this ticket stays open.`)
+          .setColor(0x2ecc71)
+          .setFooter({ text: "Eterna - Support Team" })
+          .setTimestamp();
+
+        await interaction.message
+          .edit({ embeds: [cancelledEmbed], components: [] })
+          .catch(() => null);
+      }
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket will not be closed."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Survey Rating Buttons (sent via DM)
+    if (customId.startsWith("rate_ticket_")) {
+      const payload = customId.replace("rate_ticket_", "");
+      const separator = payload.lastIndexOf("_");
+      const ticketId = payload.slice(0, separator);
+      const rating = Number(payload.slice(separator + 1));
+
+      const result = await this.ticketHandler.rateTicket(
+        ticketId,
+        user.id,
+        rating
+      );
+
+      if (!result.success) {
+        await interaction.reply({
+          content: `❌ ${result.message}`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle("⭐ Thank you for your feedback!")
+        .setDescription(
+          `You rated this ticket **${rating}/5**. ` +
+            `You can add a comment if you want to tell us more.`
+        )
+        .setColor(0x2ecc71)
+        .setFooter({ text: "Eterna - Support Team" })
+        .setTimestamp();
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`feedback_comment_${ticketId}`)
+          .setLabel("Add comment")
+          .setEmoji("💬")
+          .setStyle(ButtonStyle.Primary)
+      );
+
+      await interaction.update({ embeds: [embed], components: [row] });
+      return;
+    }
+
+    // Survey Comment Button (sent via DM)
+    if (customId.startsWith("feedback_comment_")) {
+      const ticketId = customId.replace("feedback_comment_", "");
+
+      const modal = new ModalBuilder()
+        .setCustomId(`feedback_modal_${ticketId}`)
+        .setTitle("Ticket Feedback");
+
+      const commentInput = new TextInputBuilder()
+        .setCustomId("feedback_comment")
+        .setLabel("Your comment")
+        .setStyle(TextInputStyle.Paragraph)
+        .setPlaceholder("What went well, what could we do better?")
+        .setRequired(true)
+        .setMaxLength(1000);
+
+      const actionRow = new ActionRowBuilder<TextInputBuilder>().addComponents(
+        commentInput
+      );
+      modal.addComponents(actionRow);
+
+      await interaction.showModal(modal);
+      return;
+    }
+
+    // Archive Ticket Button
+    if (customId.startsWith("archive_ticket_")) {
+      const channelId = customId.replace("archive_ticket_", "");
+
+      // Check if user has permission (staff only)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isStaff) {
+        await interaction.reply({
+          content: "❌ Only staff members can archive tickets.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const result = await this.ticketHandler.archiveClosedTicket(
+        channelId,
+        user.id
+      );
+
+      if (result.success) {
+        await interaction.message.edit({ components: [] }).catch(() => null);
+      }
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ The ticket has been archived."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+    // Keep Open Button
+    if (customId.startsWith("keep_open_")) {
+      const channelId = customId.replace("keep_open_", "");
+
+      // Check if user has permission (creator or staff)
+      const member = interaction.member as GuildMember;
+      const ticket = await this.ticketRepository?.findByChannelId(channelId);
+      const isCreator = ticket?.CreatedBy === user.id;
+      const isStaff = this.ticketHandler.isStaff(member, ticket?.Type);
+
+      if (!isCreator && !isStaff) {
+        await interaction.reply({
+          content: "❌ You don't have permission to keep this ticket open.",
+          ephemeral: true,
+        });
+        return;
+      }
+
+      bootstrap
+        .getServiceManager()
+        .getService<TicketService>("ticket-service")
+        ?.recordActivity(channelId);
+
+      await interaction.update({ components: [] });
+      await interaction.followUp({
+        content: "✅ The ticket will stay open.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+  }
+
+  // Notes are staff-only, so they are always answered ephemerally
+  private async handleViewNotes(interaction: ButtonInteraction) {
+    const channelId = interaction.customId.replace("view_notes_", "");
+    const ticket = await this.ticketRepository?.findByChannelId(
+      channelId,
+      true
+    );
+    if (!ticket) {
+      await interaction.reply({
+        content: "❌ Ticket not found.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const member = interaction.member as GuildMember;
+    if (!this.ticketHandler.isStaff(member, ticket.Type)) {
+      await interaction.reply({
+        content: "❌ Only staff members can view ticket notes.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      embeds: [await this.ticketHandler.createNotesEmbed(ticket)],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+
+  // Search filters are kept by the TicketService for a while, the id is part of the button
+  private async handleSearchPage(interaction: ButtonInteraction) {
+    const [searchId, page] = interaction.customId
+      .replace("search_page_", "")
+      .split("_");
+    const session = bootstrap
+      .getServiceManager()
+      .getService<TicketService>("ticket-service")
+      ?.getTicketSearch(searchId);
+
+    if (!session || session.UserId !== interaction.user.id) {
+      await interaction.reply({
+        content: "❌ This search has expired, run `/ticket search` again.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.update(
+      await this.ticketHandler.createSearchPage(
+        searchId,
+        session.Filters,
+        Math.max(Number(page) || 0, 0)
+      )
+    );
+  }
+
+  // Shared by the panel buttons, the panel select menu and the modmail prompt in DMs
+  async handleTicketCreation(
+    interaction: ButtonInteraction | StringSelectMenuInteraction,
+    ticketType: TicketType,
+    modmail = false
+  ) {
+    const category = this.ticketHandler.getCategory(ticketType);
+
+    if (category && category.Questions.length > 0) {
+      // Validate first so nobody fills out a form for a ticket they cannot open
+      const validation = await this.ticketHandler.validateTicketCreation(
+        interaction.user.id,
+        ticketType,
+        this.getTicketGuild(interaction)
+      );
+      if (!validation.success) {
+        await interaction.reply({
+          content: `❌ ${validation.message}`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const modal = this.ticketHandler.createIntakeModal(category, modmail);
+      await interaction.showModal(modal);
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    await this.createTicketAndReply(interaction, ticketType, [], modmail);
+  }
+
+  // DM interactions have no guild, modmail tickets always go to the configured one
+  private getTicketGuild(
+    interaction:
+      | ButtonInteraction
+      | StringSelectMenuInteraction
+      | ModalSubmitInteraction
+  ): Guild {
+    return (
+      interaction.guild ??
+      interaction.client.guilds.cache.get(config.guildId)!
+    );
+  }
+
+  // Reads the intake form answers, returns an error message if one is invalid
+  private readIntakeAnswers(
+    interaction: ModalSubmitInteraction,
+    category: ITicketCategory
+  ): ITicketIntakeAnswer[] | string {
+    const answers: ITicketIntakeAnswer[] = [];
+    for (const [index, question] of category.Questions.entries()) {
+      // The form may have changed since the modal was opened
+      const answer = (
+        interaction.fields.fields.has(`question_${index}`)
+          ? interaction.fields.getTextInputValue(`question_${index}`)
+          : ""
+      ).trim();
+
+      if (question.Required && !answer) {
+        return `Please answer "${question.Label}".`;
+      }
+
+      if (answer && question.MinLength && answer.length < question.MinLength) {
+        return `The answer to "${question.Label}" must be at least ${question.MinLength} characters long.`;
+      }
+
+      answers.push({
+        Question: question.Label,
+        Answer: answer.slice(0, question.MaxLength ?? undefined),
+      });
+    }
+    return answers;
+  }
+
+  async createTicketAndReply(
+    interaction:
+      | ButtonInteraction
+      | StringSelectMenuInteraction
+      | ModalSubmitInteraction,
+    ticketType: TicketType,
+    answers: ITicketIntakeAnswer[] = [],
+    modmail = false
+  ) {
+    const result = await this.ticketHandler.createTicket(
+      interaction.user.id,
+      ticketType,
+      this.getTicketGuild(interaction),
+      answers,
+      modmail
+    );
+
+    if (result.success && modmail) {
+      const typeName =
+        this.ticketHandler.getCategory(ticketType)?.Name ?? ticketType;
+      await interaction.editReply({
+        content: `✅ Your **${typeName}** ticket has been opened. Staff will answer you here, just keep writing in this chat.`,
+      });
+
+      // The DMs sent before the category was picked are forwarded once the channel exists
+      const ticketService = bootstrap
+        .getServiceManager()
+        .getService<TicketService>("ticket-service");
+      const pending =
+        ticketService?.takePendingModmailMessages(interaction.user.id) ?? [];
+      const ticket = this.ticketHandler
+        .getTicketCache()
+        ?.getTicket(result.channel!.id);
+      if (ticket) {
+        for (const message of pending) {
+          await this.ticketHandler.relayModmailMessage(ticket, message);
+        }
+      }
+    } else if (result.success) {
+      const typeName =
+        this.ticketHandler.getCategory(ticketType)?.Name ?? ticketType;
+      await interaction.editReply({
+        content: `✅ Your **${typeName}** ticket has been created: ${result.channel}\n\nPlease head over to your ticket channel to continue.`,
+      });
+    } else {
+      await interaction.editReply({
+        content: `❌ ${result.message}`,
+      });
+    }
   }
 
   // Handle Modal Submissions
   async handleModalSubmit(interaction: any) {
     const { customId } = interaction;
 
+    // Survey Comment Modal
+    if (customId.startsWith("feedback_modal_")) {
+      const ticketId = customId.replace("feedback_modal_", "");
+      const comment = interaction.fields
+        .getTextInputValue("feedback_comment")
+        .trim();
+
+      await interaction.deferReply({ ephemeral: true });
+
+      const result = await this.ticketHandler.commentOnTicket(
+        ticketId,
+        interaction.user.id,
+        comment
+      );
+
+      await interaction.editReply({
+        content: result.success
+          ? "✅ Thanks, your comment has been saved."
+          : `❌ ${result.message}`,
+      });
+      return;
+    }
+
+    // Ticket Intake Form Modal, modmail_form_ when it was opened from a DM
+    if (
+      customId.startsWith("ticket_form_") ||
+      customId.startsWith("modmail_form_")
+    ) {
+      const modmail = customId.startsWith("modmail_form_");
+      const ticketType = customId.replace(
+        modmail ? "modmail_form_" : "ticket_form_",
+        ""
+      ) as TicketType;
+      const category = this.ticketHandler.getCategory(ticketType);
+
+      await interaction.deferReply({ ephemeral: true });
+
+      if (!category) {
+        await interaction.editReply({ content: "❌ Invalid ticket type" });
+        return;
+      }
+
+      const answers = this.readIntakeAnswers(interaction, category);
+      if (typeof answers === "string") {
+        await interaction.editReply({ content: `❌ ${answers}` });
+        return;
+      }
+
+      await this.createTicketAndReply(
+        interaction,
+        ticketType,
+        answers,
+        modmail
+      );
+      return;
+    }
+
     // Close Reason Modal
     if (customId.startsWith("close_reason_")) {
       const channelId = customId.replace("close_reason_", "");
@@ -334,5 +965,42 @@ export class TicketButtonInteraction extends BaseEvent<"interactionCreate"> {
       }
       return;
     }
+
+    // Transfer Ticket Modal
+    if (customId.startsWith("transfer_modal_")) {
+      const channelId = customId.replace("transfer_modal_", "");
+      const userInput = interaction.fields.getTextInputValue("user_id");
+
+      await interaction.deferReply({ ephemeral: true });
+
+      // Extract user ID from mention or use as-is
+      const userId = userInput.replace(/[<@!>]/g, "");
+
+      try {
+        // Verify user exists
+        const user = await interaction.client.users.fetch(userId);
+
+        const result = await this.ticketHandler.transferTicket(
+          channelId,
+          userId,
+          interaction.user.id
+        );
+
+        if (result.success) {
+          await interaction.editReply({
+            content: `✅ Successfully transferred the ticket to ${user}.`,
+          });
+        } else {
+          await interaction.editReply({
+            content: `❌ ${result.message}`,
+          });
+        }
+      } catch (error) {
+        await interaction.editReply({
+          content: "❌ Invalid user ID or user not found.",
+        });
+      }
+      return;
+    }
   }
 }
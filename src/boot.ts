@@ -76,7 +76,7 @@ export class Bootstrap implements IBoot {
 
   public async registerService(): Promise<void> {
     const promises = [
-      // this.serviceManager?.register(new DatabaseService()),
+      this.serviceManager?.register(new DatabaseService()),
       this.serviceManager?.register(new TicketService()),
       this.serviceManager?.register(
         new GitHubWebhookService(
@@ -17,6 +17,10 @@ export class CustomClient implements IClient {
         GatewayIntentBits.GuildMessageReactions,
         GatewayIntentBits.GuildMembers,
         GatewayIntentBits.GuildModeration,
+        GatewayIntentBits.DirectMessages,
+        ...(config.ticket.settings.autoAssignment.skipOffline
+          ? [GatewayIntentBits.GuildPresences]
+          : []),
       ],
       partials: [Partials.Message, Partials.Channel, Partials.Reaction],
     });
@@ -2,12 +2,14 @@ import {
   PermissionsBitField,
   SlashCommandBuilder,
   SlashCommandSubcommandBuilder,
+  SlashCommandSubcommandGroupBuilder,
 } from "discord.js";
 import {
   OPTION_TYPE_MAP,
   type CommandConfig,
   type CommandOptionConfig,
   type SubcommandConfig,
+  type SubcommandGroupConfig,
 } from "./types";
 
 export class CommandBuilder {
@@ -42,6 +44,13 @@ export class CommandBuilder {
       );
     }
 
+    // Add subcommand groups
+    if (config.subcommandGroups) {
+      config.subcommandGroups.forEach((group) =>
+        this.addSubcommandGroup(builder, group)
+      );
+    }
+
     return builder;
   }
 
@@ -146,7 +155,7 @@ export class CommandBuilder {
   }
 
   private static addSubcommand(
-    builder: SlashCommandBuilder,
+    builder: SlashCommandBuilder | SlashCommandSubcommandGroupBuilder,
     subcommand: SubcommandConfig
   ): void {
     builder.addSubcommand((sub: SlashCommandSubcommandBuilder) => {
@@ -162,6 +171,21 @@ export class CommandBuilder {
     });
   }
 
+  private static addSubcommandGroup(
+    builder: SlashCommandBuilder,
+    group: SubcommandGroupConfig
+  ): void {
+    builder.addSubcommandGroup((sub: SlashCommandSubcommandGroupBuilder) => {
+      sub.setName(group.name).setDescription(group.description);
+
+      group.subcommands.forEach((subcommand) =>
+        this.addSubcommand(sub, subcommand)
+      );
+
+      return sub;
+    });
+  }
+
   private static addSubcommandOption(
     subcommand: SlashCommandSubcommandBuilder,
     option: CommandOptionConfig
@@ -2,6 +2,7 @@ import {
   ApplicationCommandOptionType,
   MessageFlags,
   PermissionsBitField,
+  type AutocompleteInteraction,
   type ChatInputCommandInteraction,
   type Client,
   type SlashCommandBuilder,
@@ -11,6 +12,8 @@ import { bootstrap } from "..";
 export interface ICommand {
   data: SlashCommandBuilder;
   execute(interaction: ChatInputCommandInteraction): Promise<void>;
+  // Only called for options configured with autocomplete
+  autocomplete?(interaction: AutocompleteInteraction): Promise<void>;
 }
 
 export interface CommandConfig {
@@ -18,6 +21,7 @@ export interface CommandConfig {
   description: string;
   options?: CommandOptionConfig[];
   subcommands?: SubcommandConfig[];
+  subcommandGroups?: SubcommandGroupConfig[];
   permissions?: (keyof typeof PermissionsBitField.Flags)[];
   category?: string;
   guildOnly?: boolean;
@@ -43,6 +47,12 @@ export interface SubcommandConfig {
   options?: CommandOptionConfig[];
 }
 
+export interface SubcommandGroupConfig {
+  name: string;
+  description: string;
+  subcommands: SubcommandConfig[];
+}
+
 // Type definitions for better type safety
 export type CommandOptionType =
   | "string"
@@ -1,5 +1,3 @@
-import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from "discord.js";
-
 export interface Config {
   token: string;
   guildId: string;
@@ -12,49 +10,217 @@ export interface Config {
 }
 
 export interface ITicket {
+  Id: string;
   ChannelId: string;
   Users: string[];
   Type: TicketType;
   CreatedBy: string;
+  HandledBy?: string;
   CreatedAt: Date;
+  Status: TicketStatus;
   Closed: boolean;
   ClosedAt: Date | null;
   CloseReason?: string;
   ClosedBy?: string;
+  TranscriptMessageId?: string;
+  // First intake answer and the full intake form as text
+  Subject?: string;
+  Reason?: string;
+  // Set while a closed ticket waits for its archive
+  ArchiveAt?: Date;
+  // Restored when the close is cancelled during the countdown
+  StatusBeforeClose?: TicketStatus;
+  ArchivedAt?: Date;
+  // When the retention policy deleted the archived channel
+  PurgedAt?: Date;
+  FirstResponseAt?: Date;
+  FirstResponseBy?: string;
+  // When the first response target was missed and staff got pinged
+  SlaBreachedAt?: Date;
+  // Opened through a DM to the bot, the creator talks to staff via relayed DMs
+  Modmail?: boolean;
+  // Id of the ticket this duplicate was merged into
+  MergedInto?: string;
 }
 
-export type TicketType =
-  | "general"
-  | "bug"
-  | "feature"
-  | "application"
-  | "other";
+// round_robin rotates through the staff, least_open picks whoever handles the fewest open tickets
+export type TicketAssignmentMode = "off" | "round_robin" | "least_open";
+
+// Id of a TicketCategory row
+export type TicketType = string;
+
+// Mirrors the TicketStatus enum of the database
+export type TicketStatus = "OPEN" | "PENDING" | "CLOSED" | "ARCHIVED";
+
+export interface ITicketCategory {
+  Id: string;
+  Name: string;
+  Description: string | null;
+  DefaultMessage: string | null;
+  Emoji: string | null;
+  Color: string | null;
+  DiscordCategoryId: string;
+  // Text channel tickets are opened in as private threads, null creates channels under DiscordCategoryId
+  ThreadChannelId: string | null;
+  SupportRoleIds: string[];
+  // Asked in a modal before the ticket channel is created, at most five
+  Questions: ITicketQuestion[];
+  // SLA targets, null means the category is not tracked
+  FirstResponseTargetMinutes: number | null;
+  ResolutionTargetMinutes: number | null;
+  // Open tickets one user may have in this category, null falls back to allowMultipleTickets
+  MaxOpenPerUser: number | null;
+  SortOrder: number;
+  Active: boolean;
+}
+
+export interface ITicketQuestion {
+  Label: string;
+  Placeholder: string | null;
+  Style: "SHORT" | "PARAGRAPH";
+  Required: boolean;
+  MinLength: number | null;
+  MaxLength: number | null;
+}
+
+export interface ITicketFeedback {
+  Id: string;
+  TicketId: string;
+  UserId: string;
+  HandlerId: string | null;
+  CategoryId: string | null;
+  // 1 to 5 stars
+  Rating: number;
+  Comment: string | null;
+  CreatedAt: Date;
+}
+
+// Internal staff note, never shown to the ticket creator
+export interface ITicketNote {
+  Id: string;
+  TicketId: string;
+  AuthorId: string;
+  Content: string;
+  CreatedAt: Date;
+}
+
+export interface ITicketIntakeAnswer {
+  Question: string;
+  Answer: string;
+}
+
+export interface ITicketBlacklistEntry {
+  Id: string;
+  UserId: string;
+  Reason: string;
+  ModeratorId: string;
+  // Null means the block never runs out
+  ExpiresAt: Date | null;
+  CreatedAt: Date;
+}
+
+export type TicketMenuStyle = "BUTTONS" | "SELECT";
+
+export interface ITicketSnippet {
+  Id: string;
+  Name: string;
+  Content: string;
+  // Sent as an embed with an optional title instead of plain text
+  Embed: boolean;
+  Title: string | null;
+  // Empty means usable in every category
+  CategoryIds: string[];
+  CreatedBy: string;
+}
+
+export interface ITicketMenu {
+  Id: string;
+  ChannelId: string;
+  MessageId: string;
+  Title: string | null;
+  Description: string | null;
+  // Empty means every active category
+  CategoryIds: string[];
+  Style: TicketMenuStyle;
+}
 
 export interface ITicketConfiguration {
-  ticketTypes: Record<
-    TicketType,
+  // Seeded into the TicketCategory table when it is empty, managed via /ticket-category afterwards
+  defaultTicketTypes: Record<
+    string,
     {
       name: string;
+      description: string;
       categoryId: string;
       emoji: string;
       defaultMessage: string;
+      questions?: ITicketQuestion[];
     }
   >;
   channelConfig: {
     logChannelId: string;
     ticketArchiveCategoryId: string;
+    // Used in order once the archive category is full
+    overflowArchiveCategoryIds: string[];
     messageChannelId: string;
+    // Staff channel that holds the live queue embed, null disables it
+    queueDashboardChannelId: string | null;
   };
   permissions: {
     supportRoleId: string;
     allowedRoles: string[];
     alertRoleId: string;
+    // Pinged on SLA breaches, falls back to alertRoleId
+    escalationRoleId: string | null;
     blacklistedRoles: string[];
   };
   settings: {
     ticketNamingPattern: string;
+    // Minutes without a message before an open ticket is closed, 0 disables it
     autoCloseTimeoutMinutes: number;
+    // Share of the timeout after which the "Keep open" warning is posted
+    autoCloseWarningFraction: number;
+    autoCloseSkipClaimed: boolean;
     allowMultipleTickets: boolean;
+    // Seconds a user has to wait between creating two tickets, 0 disables it
+    userCreationCooldownSeconds: number;
+    // Seconds between any two ticket creations in the guild, 0 disables it
+    globalCreationCooldownSeconds: number;
+    // At most maxTickets creations per window, bursts above it are queued or rejected
+    creationRateLimit: {
+      maxTickets: number;
+      windowSeconds: number;
+      queue: boolean;
+      // Longest a queued creation may wait before it is rejected instead
+      maxQueueSeconds: number;
+    };
+    dmTranscriptToCreator: boolean;
+    claimRestrictsSupport: boolean;
+    // Lets members open and answer tickets by messaging the bot directly
+    modmailEnabled: boolean;
+    archiveRetention: {
+      // Days after which archived channels are deleted, 0 keeps them forever
+      deleteAfterDays: number;
+      // Free archive slots left across all archive categories before staff are warned
+      capacityWarningThreshold: number;
+    };
+    // Attachments are downloaded on close and deleted together with the archived channel
+    attachmentArchive: {
+      enabled: boolean;
+      directory: string;
+      maxFileSizeMb: number;
+      maxTicketSizeMb: number;
+      // Exact types or whole groups such as "image/*"
+      allowedContentTypes: string[];
+    };
+    // Hands new tickets to a member of the category's support roles
+    autoAssignment: {
+      mode: TicketAssignmentMode;
+      // Needs the privileged presence intent, which is only requested when enabled
+      skipOffline: boolean;
+      // Staff toggle this with /ticket duty
+      skipOffDuty: boolean;
+    };
   };
 }
 
@@ -71,33 +237,106 @@ export const config: Config = {
     "1384243444062490658",
   ],
   ticket: {
-    ticketTypes: {
+    defaultTicketTypes: {
       general: {
         name: "General Support",
+        description: "General questions or help.",
         categoryId: "1388555994639892582",
         emoji: "📩",
         defaultMessage: "Please describe your issue in detail.",
       },
       bug: {
         name: "Bug Report",
+        description: "Report a bug you've encountered.",
         categoryId: "1388556031876927629",
         emoji: "🐛",
         defaultMessage: "Please explain the bug you encountered.",
+        questions: [
+          {
+            Label: "What went wrong?",
+            Placeholder: "Short summary of the bug",
+            Style: "SHORT",
+            Required: true,
+            MinLength: 5,
+            MaxLength: 100,
+          },
+          {
+            Label: "Steps to reproduce",
+            Placeholder: "1. ...\n2. ...\n3. ...",
+            Style: "PARAGRAPH",
+            Required: true,
+            MinLength: 10,
+            MaxLength: 1000,
+          },
+          {
+            Label: "Expected behavior",
+            Placeholder: null,
+            Style: "PARAGRAPH",
+            Required: false,
+            MinLength: null,
+            MaxLength: 500,
+          },
+        ],
       },
       feature: {
         name: "Feature Request",
+        description: "Suggest a new feature or improvement.",
         categoryId: "1388556062193619084",
         emoji: "✨",
         defaultMessage: "Describe the feature you'd like to see.",
       },
       application: {
         name: "Application",
+        description: "Apply for a position or role.",
         categoryId: "1388556089355927622",
         emoji: "📝",
         defaultMessage: "Please fill out the application form.",
+        questions: [
+          {
+            Label: "Which position are you applying for?",
+            Placeholder: null,
+            Style: "SHORT",
+            Required: true,
+            MinLength: 2,
+            MaxLength: 100,
+          },
+          {
+            Label: "How old are you?",
+            Placeholder: null,
+            Style: "SHORT",
+            Required: true,
+            MinLength: 1,
+            MaxLength: 3,
+          },
+          {
+            Label: "Tell us about yourself",
+            Placeholder: null,
+            Style: "PARAGRAPH",
+            Required: true,
+            MinLength: 50,
+            MaxLength: 1000,
+          },
+          {
+            Label: "Why do you want to join the team?",
+            Placeholder: null,
+            Style: "PARAGRAPH",
+            Required: true,
+            MinLength: 50,
+            MaxLength: 1000,
+          },
+          {
+            Label: "How much time can you spend per week?",
+            Placeholder: null,
+            Style: "SHORT",
+            Required: true,
+            MinLength: 1,
+            MaxLength: 100,
+          },
+        ],
       },
       other: {
         name: "Other",
+        description: "Anything else that doesn't fit above.",
         categoryId: "1388556123094913204",
         emoji: "❓",
         defaultMessage: "Please describe your request.",
@@ -106,35 +345,60 @@ export const config: Config = {
     channelConfig: {
       logChannelId: "1384243445119586427",
       ticketArchiveCategoryId: "1388556761518182500",
+      overflowArchiveCategoryIds: [],
       messageChannelId: "1384243445488681060",
+      queueDashboardChannelId: null,
     },
     permissions: {
       supportRoleId: "1384243444062490658",
       allowedRoles: ["1384243444062490656"],
       alertRoleId: "1388556367035498688",
+      escalationRoleId: null,
       blacklistedRoles: [],
     },
     settings: {
       ticketNamingPattern: "ticket-{username}-{ticketType}",
       autoCloseTimeoutMinutes: 60,
+      autoCloseWarningFraction: 0.75,
+      autoCloseSkipClaimed: true,
       allowMultipleTickets: false,
+      userCreationCooldownSeconds: 300,
+      globalCreationCooldownSeconds: 0,
+      creationRateLimit: {
+        maxTickets: 10,
+        windowSeconds: 60,
+        queue: true,
+        maxQueueSeconds: 30,
+      },
+      dmTranscriptToCreator: true,
+      claimRestrictsSupport: false,
+      modmailEnabled: true,
+      archiveRetention: {
+        deleteAfterDays: 0,
+        capacityWarningThreshold: 5,
+      },
+      attachmentArchive: {
+        enabled: true,
+        directory: "./storage/ticket-attachments",
+        maxFileSizeMb: 10,
+        maxTicketSizeMb: 50,
+        allowedContentTypes: [
+          "image/*",
+          "video/*",
+          "text/plain",
+          "application/pdf",
+        ],
+      },
+      autoAssignment: {
+        mode: "off",
+        skipOffline: false,
+        skipOffDuty: true,
+      },
     },
   },
 };
 
 // Ticket Specific Config, need to move it
-export const ticketSelectionEmbed = {
-  title: "🎫 Create a Support Ticket",
-  description:
-    "Select the type of support you need by clicking one of the buttons below.\n\n" +
-    "📩 **General Support** - General questions or help.\n" +
-    "🐛 **Bug Report** - Report a bug you've encountered.\n" +
-    "✨ **Feature Request** - Suggest a new feature or improvement.\n" +
-    "📝 **Application** - Apply for a position or role.\n" +
-    "❓ **Other** - Anything else that doesn't fit above.",
-  color: 0x5865f2, // Discord blurple
-};
-
 export const createTicketOpenedEmbed = (
   ticketTypeName: string,
   username: string
@@ -151,40 +415,3 @@ export const createTicketOpenedEmbed = (
   },
   timestamp: new Date().toISOString(),
 });
-
-export const ticketTypeButtons =
-  new ActionRowBuilder<ButtonBuilder>().addComponents(
-    new ButtonBuilder()
-      .setCustomId("ticket_general")
-      .setLabel("General")
-      .setEmoji("📩")
-      .setStyle(ButtonStyle.Primary),
-    new ButtonBuilder()
-      .setCustomId("ticket_bug")
-      .setLabel("Bug")
-      .setEmoji("🐛")
-      .setStyle(ButtonStyle.Danger),
-    new ButtonBuilder()
-      .setCustomId("ticket_feature")
-      .setLabel("Feature")
-      .setEmoji("✨")
-      .setStyle(ButtonStyle.Secondary),
-    new ButtonBuilder()
-      .setCustomId("ticket_application")
-      .setLabel("Application")
-      .setEmoji("📝")
-      .setStyle(ButtonStyle.Success),
-    new ButtonBuilder()
-      .setCustomId("ticket_other")
-      .setLabel("Other")
-      .setEmoji("❓")
-      .setStyle(ButtonStyle.Secondary)
-  );
-
-export const ticketTypeOptions = [
-  { label: "General", value: "ticket_general", emoji: "📩" },
-  { label: "Bug", value: "ticket_bug", emoji: "🐛" },
-  { label: "Feature", value: "ticket_feature", emoji: "✨" },
-  { label: "Application", value: "ticket_application", emoji: "📝" },
-  { label: "Other", value: "ticket_other", emoji: "❓" },
-];